@@ -13,6 +13,15 @@
     const agentModeSelect = document.getElementById('agentMode');
     const taskDescriptionTextarea = document.getElementById('taskDescription');
     const saveTaskBtn = document.getElementById('saveTaskBtn');
+    const queueTaskBtn = document.getElementById('queueTaskBtn');
+    const queueIterationsInput = document.getElementById('queueIterations');
+    const queueList = document.getElementById('queueList');
+    const queueEmpty = document.getElementById('queueEmpty');
+    const queueToggleBtn = document.getElementById('queueToggleBtn');
+    const checkpointList = document.getElementById('checkpointList');
+    const checkpointsEmpty = document.getElementById('checkpointsEmpty');
+    const agentResponse = document.getElementById('agentResponse');
+    const agentResponseTime = document.getElementById('agentResponseTime');
 
     // State
     let isWorkflowRunning = false;
@@ -27,6 +36,7 @@
         'checking-status': 'question',
         'requesting-tests': 'beaker',
         'verifying-completion': 'checklist',
+        'awaiting-approval': 'eye',
         'paused': 'debug-pause',
         'completed': 'check',
         'error': 'error'
@@ -94,6 +104,60 @@
         }
     });
 
+    queueTaskBtn.addEventListener('click', () => {
+        const taskDescription = taskDescriptionTextarea.value.trim();
+        if (taskDescription) {
+            vscode.postMessage({
+                type: 'queueAdd',
+                value: taskDescription,
+                maxIterations: queueIterationsInput.value
+            });
+            taskDescriptionTextarea.value = '';
+        }
+    });
+
+    queueToggleBtn.addEventListener('click', () => {
+        vscode.postMessage({ type: 'queueToggle' });
+    });
+
+    // Queue item actions are delegated to the list
+    queueList.addEventListener('click', (e) => {
+        const button = e.target.closest('button[data-action]');
+        if (!button) {
+            return;
+        }
+        const id = button.closest('li').dataset.id;
+        switch (button.dataset.action) {
+            case 'up':
+            case 'down':
+                vscode.postMessage({ type: 'queueMove', id, direction: button.dataset.action });
+                break;
+            case 'skip':
+                vscode.postMessage({ type: 'queueSkip', id });
+                break;
+            case 'remove':
+                vscode.postMessage({ type: 'queueRemove', id });
+                break;
+        }
+    });
+
+    // Checkpoint actions are delegated to the list
+    checkpointList.addEventListener('click', (e) => {
+        const button = e.target.closest('button[data-action]');
+        if (!button) {
+            return;
+        }
+        const id = button.closest('li').dataset.id;
+        switch (button.dataset.action) {
+            case 'diff':
+                vscode.postMessage({ type: 'checkpointDiff', id });
+                break;
+            case 'rollback':
+                vscode.postMessage({ type: 'checkpointRollback', id });
+                break;
+        }
+    });
+
     // Handle messages from the extension
     window.addEventListener('message', (event) => {
         const message = event.data;
@@ -118,9 +182,109 @@
                 updateToggleButton(message.isRunning);
                 break;
             }
+            case 'queueUpdate': {
+                renderQueue(message.tasks, message.processing);
+                break;
+            }
+            case 'checkpointsUpdate': {
+                renderCheckpoints(message.checkpoints);
+                break;
+            }
+            case 'agentResponse': {
+                agentResponse.textContent = message.text;
+                agentResponseTime.textContent = `Captured at ${new Date(message.timestamp).toLocaleTimeString()}`;
+                break;
+            }
         }
     });
 
+    /**
+     * Render the task queue
+     */
+    function renderQueue(tasks, processing) {
+        queueList.innerHTML = '';
+        queueEmpty.style.display = tasks.length === 0 ? 'block' : 'none';
+
+        tasks.forEach((task, index) => {
+            const item = document.createElement('li');
+            item.dataset.id = task.id;
+            item.className = `queue-item ${task.status}`;
+
+            const description = document.createElement('span');
+            description.className = 'queue-description';
+            description.textContent = task.description;
+            description.title = task.branchName ? `${task.description}\nBranch: ${task.branchName}` : task.description;
+
+            const status = document.createElement('span');
+            status.className = 'queue-status';
+            status.textContent = task.maxIterations ? `${task.status} · ${task.maxIterations} it.` : task.status;
+
+            const actions = document.createElement('span');
+            actions.className = 'queue-actions';
+            const canEdit = task.status !== 'running';
+            actions.append(
+                queueAction('arrow-up', 'up', 'Move up', index === 0),
+                queueAction('arrow-down', 'down', 'Move down', index === tasks.length - 1),
+                queueAction('debug-step-over', 'skip', 'Skip', task.status !== 'pending' && task.status !== 'running'),
+                queueAction('trash', 'remove', 'Remove', !canEdit)
+            );
+
+            item.append(description, status, actions);
+            queueList.appendChild(item);
+        });
+
+        queueToggleBtn.querySelector('span:last-child').textContent = processing ? 'Stop Queue' : 'Run Queue';
+        queueToggleBtn.querySelector('span.codicon').className = processing
+            ? 'codicon codicon-debug-stop'
+            : 'codicon codicon-run-all';
+    }
+
+    /**
+     * Render the git checkpoints of the latest run, newest first
+     */
+    function renderCheckpoints(checkpoints) {
+        checkpointList.innerHTML = '';
+        checkpointsEmpty.style.display = checkpoints.length === 0 ? 'block' : 'none';
+
+        checkpoints.slice().reverse().forEach((checkpoint, index) => {
+            const item = document.createElement('li');
+            item.dataset.id = checkpoint.id;
+            item.className = 'queue-item';
+
+            const label = document.createElement('span');
+            label.className = 'queue-description';
+            label.textContent = checkpoint.iteration === 0 ? 'Start of run' : `Iteration #${checkpoint.iteration}`;
+            label.title = `${checkpoint.message}\n${checkpoint.commit}`;
+
+            const time = document.createElement('span');
+            time.className = 'queue-status';
+            time.textContent = `${checkpoint.commit.slice(0, 7)} · ${new Date(checkpoint.createdAt).toLocaleTimeString()}`;
+
+            const actions = document.createElement('span');
+            actions.className = 'queue-actions';
+            actions.append(
+                queueAction('diff', 'diff', 'Diff against previous', checkpoint.iteration === 0),
+                queueAction('discard', 'rollback', 'Roll back to here', index === 0)
+            );
+
+            item.append(label, time, actions);
+            checkpointList.appendChild(item);
+        });
+    }
+
+    /**
+     * Create an icon button for a queue item
+     */
+    function queueAction(icon, action, title, disabled) {
+        const button = document.createElement('button');
+        button.className = 'icon-button';
+        button.dataset.action = action;
+        button.title = title;
+        button.disabled = disabled;
+        button.innerHTML = `<span class="codicon codicon-${icon}"></span>`;
+        return button;
+    }
+
     /**
      * Update the toggle button state
      */
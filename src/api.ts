@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import { StatusManager, WorkflowState } from './statusManager';
+import { RunHistory, RunRecord } from './workflows/runHistory';
+import { pauseWorkflow, resumeWorkflow, startWorkflow, stopWorkflow } from './workflows/workflowManager';
+import { WorkflowRunner } from './workflows/workflowRunner';
+
+/**
+ * Versions of the API the extension provides
+ */
+export type MarcoApiVersion = 1;
+
+/**
+ * A workflow state change, as seen by API consumers
+ */
+export interface MarcoStateChangeEvent {
+    state: WorkflowState;
+    message?: string;
+    /** The run that changed state */
+    runId?: string;
+    /** Iteration of the run (1-based) */
+    iteration: number;
+}
+
+/**
+ * Options of MarcoApi.startRun
+ */
+export interface MarcoStartRunOptions {
+    /** The task for the agent */
+    task: string;
+    /** `marco.*` settings to override for this run, without the `marco.` prefix (e.g. `{ maxIterations: 3 }`) */
+    settingsOverrides?: Record<string, unknown>;
+}
+
+/**
+ * Version 1 of the API other extensions use to drive Marco
+ */
+export interface MarcoApi {
+    readonly version: 1;
+
+    /**
+     * Starts a run of a task
+     * @returns The identifier of the run
+     * @throws Error if the task is empty
+     * @throws InvalidStateTransitionError if a run is already in progress
+     */
+    startRun(options: MarcoStartRunOptions): string;
+
+    /**
+     * Pauses the current run after the step in progress
+     * @throws InvalidStateTransitionError if no workflow step is active
+     */
+    pause(): void;
+
+    /**
+     * Resumes the paused run
+     * @throws InvalidStateTransitionError if the run is not paused
+     */
+    resume(): void;
+
+    /**
+     * Stops the current run, cancelling the step in progress
+     */
+    stop(): Promise<void>;
+
+    /**
+     * Gets the current workflow state
+     */
+    getState(): WorkflowState;
+
+    /**
+     * Fires whenever the workflow changes state
+     */
+    readonly onDidChangeState: vscode.Event<MarcoStateChangeEvent>;
+
+    /**
+     * Gets the past and current runs, most recent first
+     */
+    getRunHistory(): RunRecord[];
+}
+
+/**
+ * What `activate` returns; other extensions get it from `vscode.extensions.getExtension(...).exports`
+ */
+export interface MarcoExtensionExports {
+    /**
+     * Gets a version of the API
+     * @param version The version the caller was written against
+     * @throws Error if the version is not supported
+     */
+    getAPI(version: MarcoApiVersion): MarcoApi;
+}
+
+/**
+ * Creates the object `activate` returns
+ * @param context The VS Code extension context
+ */
+export function createExtensionExports(context: vscode.ExtensionContext): MarcoExtensionExports {
+    return {
+        getAPI(version: MarcoApiVersion): MarcoApi {
+            if (version !== 1) {
+                throw new Error(`Marco AI API version ${version} is not supported; available versions: 1`);
+            }
+            return createApiV1(context);
+        }
+    };
+}
+
+function createApiV1(context: vscode.ExtensionContext): MarcoApi {
+    const runner = WorkflowRunner.getInstance();
+
+    const onDidChangeState: vscode.Event<MarcoStateChangeEvent> = (listener, thisArgs, disposables) => {
+        const subscription = StatusManager.getInstance().onStateChanged((state, message) => {
+            listener.call(thisArgs, { state, message, runId: runner.getRunId(), iteration: runner.getIteration() + 1 });
+        });
+        if (Array.isArray(disposables)) {
+            disposables.push(subscription);
+        }
+        return subscription;
+    };
+
+    return {
+        version: 1,
+        startRun(options: MarcoStartRunOptions): string {
+            if (!options.task?.trim()) {
+                throw new Error('Marco AI: startRun needs a task');
+            }
+            startWorkflow(context, { taskDescription: options.task, settingsOverrides: options.settingsOverrides });
+            return runner.getRunId() as string;
+        },
+        pause: () => pauseWorkflow(),
+        resume: () => resumeWorkflow(context),
+        stop: () => stopWorkflow(),
+        getState: () => StatusManager.getInstance().getState(),
+        onDidChangeState,
+        getRunHistory: () => RunHistory.getInstance().getRuns()
+    };
+}
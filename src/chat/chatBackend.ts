@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+
+/**
+ * Chat modes the agent can work in
+ */
+export type AgentMode = 'Agent' | 'Edit' | 'Ask';
+
+/**
+ * A reply of the agent
+ */
+export interface ChatResponse {
+    /** Text of the reply */
+    text: string;
+    /** The prompt the agent answered, if known */
+    prompt?: string;
+    /** Time the reply was received (ms since epoch) */
+    timestamp: number;
+}
+
+/**
+ * The chat the workflow engine talks to the agent through
+ * The engine only uses this interface, so the chat it drives can be swapped,
+ * e.g. for a scripted backend in tests.
+ */
+export interface ChatBackend {
+    /**
+     * Opens the chat
+     * @param focus Whether to move the focus to the chat
+     * @returns Whether the chat is open
+     */
+    open(focus?: boolean): Promise<boolean>;
+
+    /**
+     * Sends a message to the agent
+     * @param message The message
+     * @param background Whether the user's focus should be preserved
+     * @returns Whether the message was sent
+     */
+    send(message: string, background?: boolean): Promise<boolean>;
+
+    /**
+     * Selects the model that answers the next messages
+     * @param name Display name of the model
+     * @returns Whether the model is available and was selected
+     */
+    selectModel(name: string): Promise<boolean>;
+
+    /**
+     * Switches the chat mode
+     * @returns Whether the mode was switched
+     */
+    setMode(mode: AgentMode): Promise<boolean>;
+
+    /**
+     * Whether the agent is still generating a reply
+     */
+    isBusy(): Promise<boolean>;
+
+    /**
+     * Registers a listener for the agent's replies
+     * Backends that cannot observe replies never call it.
+     */
+    onResponse(listener: (response: ChatResponse) => void): vscode.Disposable;
+
+    /**
+     * Reads the whole conversation, as a fallback for replies onResponse did not report
+     * @returns The conversation, or undefined if it cannot be read
+     */
+    readTranscript(): Promise<string | undefined>;
+}
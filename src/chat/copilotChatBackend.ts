@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import { ensureChatOpen, isAgentWorking, readChatTranscript, selectAIModel, sendChatMessage } from '../utils/chatUtils';
+import { sleep } from '../utils/helpers';
+import { logger } from '../utils/logger';
+import { AgentMode, ChatBackend, ChatResponse } from './chatBackend';
+import { TranscriptStore } from './transcript';
+
+/**
+ * Drives the GitHub Copilot Chat view through VS Code commands
+ * Replies are only observed for prompts sent through the @marco participant.
+ */
+export class CopilotChatBackend implements ChatBackend {
+    public async open(focus = false): Promise<boolean> {
+        const opened = await ensureChatOpen(5, 1000, focus);
+
+        // Attempt to move the chat view to the secondary sidebar (right panel) if focused
+        if (focus) {
+            try {
+                // Delay to allow focus to settle before moving
+                await sleep(500);
+                // First focus the GitHub Copilot Chat view specifically
+                await vscode.commands.executeCommand('github.copilot.chat.focus');
+            } catch (moveError) {
+                logger.warn('Could not automatically move Copilot Chat view to the right panel:', moveError);
+            }
+        }
+        return opened;
+    }
+
+    public send(message: string, background = false): Promise<boolean> {
+        return sendChatMessage(message, background);
+    }
+
+    public selectModel(name: string): Promise<boolean> {
+        return selectAIModel(name);
+    }
+
+    public async setMode(mode: AgentMode): Promise<boolean> {
+        try {
+            await vscode.commands.executeCommand('workbench.action.chat.open', { mode: mode.toLowerCase() });
+            return true;
+        } catch (error) {
+            logger.warn(`Could not switch the chat to ${mode} mode:`, error);
+            return false;
+        }
+    }
+
+    public isBusy(): Promise<boolean> {
+        return isAgentWorking();
+    }
+
+    public onResponse(listener: (response: ChatResponse) => void): vscode.Disposable {
+        return TranscriptStore.getInstance().onDidRecordTurn(turn => {
+            if (turn.role === 'agent') {
+                listener({ text: turn.text, prompt: turn.prompt, timestamp: turn.timestamp });
+            }
+        });
+    }
+
+    public readTranscript(): Promise<string | undefined> {
+        return readChatTranscript();
+    }
+}
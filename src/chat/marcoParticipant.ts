@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import { logger } from '../utils/logger';
+import { TranscriptStore } from './transcript';
+
+/**
+ * Identifier of the Marco chat participant, as contributed in package.json
+ */
+export const MARCO_PARTICIPANT_ID = 'marco-ai.marco';
+
+/** Upper bound on model/tool round trips for a single request */
+const MAX_TOOL_ROUNDS = 25;
+
+/**
+ * Registers the `@marco` chat participant
+ * The participant forwards each request to the model selected in the chat view,
+ * runs the tools the model asks for, streams the answer back and records it in
+ * the current run transcript so the workflow can read the agent's responses.
+ * @param context The VS Code extension context
+ */
+export function registerMarcoParticipant(context: vscode.ExtensionContext): void {
+    const participant = vscode.chat.createChatParticipant(MARCO_PARTICIPANT_ID, handleChatRequest);
+    participant.iconPath = new vscode.ThemeIcon('rocket');
+    context.subscriptions.push(participant);
+}
+
+/**
+ * Handles a single `@marco` request
+ */
+async function handleChatRequest(
+    request: vscode.ChatRequest,
+    chatContext: vscode.ChatContext,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+): Promise<vscode.ChatResult> {
+    const messages = [
+        ...buildHistory(chatContext),
+        vscode.LanguageModelChatMessage.User(request.prompt)
+    ];
+    const tools: vscode.LanguageModelChatTool[] = vscode.lm.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema
+    }));
+
+    let responseText = '';
+
+    try {
+        for (let round = 0; round < MAX_TOOL_ROUNDS && !token.isCancellationRequested; round++) {
+            const response = await request.model.sendRequest(messages, { tools }, token);
+
+            let text = '';
+            const toolCalls: vscode.LanguageModelToolCallPart[] = [];
+            for await (const part of response.stream) {
+                if (part instanceof vscode.LanguageModelTextPart) {
+                    stream.markdown(part.value);
+                    text += part.value;
+                } else if (part instanceof vscode.LanguageModelToolCallPart) {
+                    toolCalls.push(part);
+                }
+            }
+            responseText += text;
+
+            if (toolCalls.length === 0) {
+                break;
+            }
+
+            // Feed the tool results back to the model for the next round
+            messages.push(vscode.LanguageModelChatMessage.Assistant([new vscode.LanguageModelTextPart(text), ...toolCalls]));
+            for (const call of toolCalls) {
+                stream.progress(`Running ${call.name}...`);
+                const result = await vscode.lm.invokeTool(call.name, {
+                    input: call.input,
+                    toolInvocationToken: request.toolInvocationToken
+                }, token);
+                messages.push(vscode.LanguageModelChatMessage.User([
+                    new vscode.LanguageModelToolResultPart(call.callId, result.content)
+                ]));
+            }
+        }
+    } catch (error) {
+        logger.error('Marco chat participant request failed:', error);
+        stream.markdown(`\n\n*Marco could not complete the request: ${error}*`);
+        return { errorDetails: { message: `${error}` } };
+    } finally {
+        TranscriptStore.getInstance().recordResponse(request.prompt, responseText);
+    }
+
+    return { metadata: { runId: TranscriptStore.getInstance().getCurrentRunId() } };
+}
+
+/**
+ * Converts the participant's previous turns into model messages
+ */
+function buildHistory(chatContext: vscode.ChatContext): vscode.LanguageModelChatMessage[] {
+    const messages: vscode.LanguageModelChatMessage[] = [];
+
+    for (const turn of chatContext.history) {
+        if (turn instanceof vscode.ChatRequestTurn) {
+            messages.push(vscode.LanguageModelChatMessage.User(turn.prompt));
+        } else if (turn instanceof vscode.ChatResponseTurn) {
+            const text = turn.response
+                .filter((part): part is vscode.ChatResponseMarkdownPart => part instanceof vscode.ChatResponseMarkdownPart)
+                .map(part => part.value.value)
+                .join('');
+            if (text) {
+                messages.push(vscode.LanguageModelChatMessage.Assistant(text));
+            }
+        }
+    }
+
+    return messages;
+}
@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { getClock, now } from '../utils/clock';
+import { sleep } from '../utils/helpers';
+import { AgentMode, ChatBackend, ChatResponse } from './chatBackend';
+
+/**
+ * A scripted reply: a fixed text, or a function of the message that may return
+ * undefined for no reply
+ */
+export type MockReply = string | ((message: string) => string | undefined);
+
+/** Default time the mock agent takes to reply (ms) */
+const DEFAULT_REPLY_DELAY = 1000;
+
+/**
+ * Options of MockChatBackend
+ */
+export interface MockChatBackendOptions {
+    /** Models selectModel accepts; any model when missing */
+    availableModels?: string[];
+    /** Reply to messages that have no queued reply */
+    defaultReply?: MockReply;
+    /** Time the agent takes to reply (ms, default 1000) */
+    replyDelayMs?: number;
+    /** Time send takes to return (ms, default 0); replies are timed from the start of send */
+    sendDelayMs?: number;
+}
+
+/**
+ * In-memory chat backend that records what is sent and answers with scripted replies
+ * Replies are delivered after a delay on the clock from getClock, like a real agent's;
+ * the agent is busy until then.
+ */
+export class MockChatBackend implements ChatBackend {
+    /** Messages sent, in order */
+    public readonly sentMessages: string[] = [];
+    /** Whether open was called; opening does nothing else */
+    public opened = false;
+    /** The model selected last */
+    public model: string | undefined;
+    /** The mode set last */
+    public mode: AgentMode | undefined;
+    private busy = false;
+    private pendingReplies = new Set<vscode.Disposable>();
+    private replies: MockReply[] = [];
+    private conversation: string[] = [];
+    private responseListeners: ((response: ChatResponse) => void)[] = [];
+
+    constructor(private readonly options: MockChatBackendOptions = {}) { }
+
+    /**
+     * Queues replies; each sent message consumes the next one
+     * @param replies The replies, in order
+     */
+    public queueReplies(...replies: MockReply[]): void {
+        this.replies.push(...replies);
+    }
+
+    /**
+     * Keeps the agent busy even when no reply is pending
+     */
+    public setBusy(busy: boolean): void {
+        this.busy = busy;
+    }
+
+    /**
+     * Delivers a reply to the onResponse listeners right away
+     * @param text The reply
+     * @param prompt The message it answers
+     */
+    public respond(text: string, prompt?: string): void {
+        this.conversation.push(text);
+        const response: ChatResponse = { text, prompt, timestamp: now() };
+        this.responseListeners.forEach(listener => listener(response));
+    }
+
+    /**
+     * Forgets the sent messages and queued replies, and drops the replies not delivered yet
+     */
+    public reset(): void {
+        this.pendingReplies.forEach(timer => timer.dispose());
+        this.pendingReplies.clear();
+        this.sentMessages.length = 0;
+        this.replies = [];
+        this.conversation = [];
+        this.opened = false;
+        this.model = undefined;
+        this.mode = undefined;
+        this.busy = false;
+    }
+
+    public async open(): Promise<boolean> {
+        this.opened = true;
+        return true;
+    }
+
+    public async send(message: string): Promise<boolean> {
+        this.sentMessages.push(message);
+        this.conversation.push(message);
+
+        const reply = this.replies.shift() ?? this.options.defaultReply;
+        const text = typeof reply === 'function' ? reply(message) : reply;
+        if (text !== undefined) {
+            const timer = getClock().schedule(() => {
+                this.pendingReplies.delete(timer);
+                this.respond(text, message);
+            }, this.options.replyDelayMs ?? DEFAULT_REPLY_DELAY);
+            this.pendingReplies.add(timer);
+        }
+        if (this.options.sendDelayMs) {
+            await sleep(this.options.sendDelayMs);
+        }
+        return true;
+    }
+
+    public async selectModel(name: string): Promise<boolean> {
+        if (this.options.availableModels && !this.options.availableModels.includes(name)) {
+            return false;
+        }
+        this.model = name;
+        return true;
+    }
+
+    public async setMode(mode: AgentMode): Promise<boolean> {
+        this.mode = mode;
+        return true;
+    }
+
+    public async isBusy(): Promise<boolean> {
+        return this.busy || this.pendingReplies.size > 0;
+    }
+
+    public onResponse(listener: (response: ChatResponse) => void): vscode.Disposable {
+        this.responseListeners.push(listener);
+
+        return {
+            dispose: () => {
+                const index = this.responseListeners.indexOf(listener);
+                if (index !== -1) {
+                    this.responseListeners.splice(index, 1);
+                }
+            }
+        };
+    }
+
+    public async readTranscript(): Promise<string | undefined> {
+        return this.conversation.length > 0 ? this.conversation.join('\n\n') : undefined;
+    }
+}
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+
+/**
+ * A single entry of a run transcript
+ */
+export interface TranscriptTurn {
+    /** Identifier of the run the turn belongs to */
+    runId: string;
+    /** `marco` for messages Marco sent, `agent` for captured agent responses */
+    role: 'marco' | 'agent';
+    /** Text of the message or response */
+    text: string;
+    /** For agent turns, the prompt the agent answered */
+    prompt?: string;
+    /** Time the turn was recorded (ms since epoch) */
+    timestamp: number;
+}
+
+type TurnListener = (turn: TranscriptTurn) => void;
+
+/** Number of run transcripts kept in memory */
+const MAX_RUNS = 10;
+
+/**
+ * Keeps a per-run transcript of the messages Marco sends and the agent responses it captures
+ */
+export class TranscriptStore {
+    private static instance: TranscriptStore;
+    private transcripts = new Map<string, TranscriptTurn[]>();
+    private currentRunId: string | undefined;
+    private turnListeners: TurnListener[] = [];
+
+    private constructor() { }
+
+    /**
+     * Get the singleton instance of TranscriptStore
+     */
+    public static getInstance(): TranscriptStore {
+        if (!TranscriptStore.instance) {
+            TranscriptStore.instance = new TranscriptStore();
+        }
+        return TranscriptStore.instance;
+    }
+
+    /**
+     * Start a new transcript; subsequent turns are recorded against this run
+     * @param runId Identifier of the run
+     */
+    public startRun(runId: string): void {
+        this.currentRunId = runId;
+        this.transcripts.set(runId, []);
+
+        // Drop the oldest transcripts (Map keeps insertion order)
+        while (this.transcripts.size > MAX_RUNS) {
+            const oldest = this.transcripts.keys().next().value as string;
+            this.transcripts.delete(oldest);
+        }
+    }
+
+    /**
+     * Get the identifier of the run currently being recorded
+     */
+    public getCurrentRunId(): string | undefined {
+        return this.currentRunId;
+    }
+
+    /**
+     * Record a message Marco sent to the chat
+     * @param text The message text
+     */
+    public recordMessage(text: string): void {
+        this.record({ role: 'marco', text });
+    }
+
+    /**
+     * Record a captured agent response
+     * @param prompt The prompt the agent answered
+     * @param text The response text
+     */
+    public recordResponse(prompt: string, text: string): void {
+        this.record({ role: 'agent', text, prompt });
+    }
+
+    /**
+     * Get the turns of a run
+     * @param runId The run to read, defaults to the current run
+     */
+    public getTurns(runId = this.currentRunId): TranscriptTurn[] {
+        return runId ? [...(this.transcripts.get(runId) || [])] : [];
+    }
+
+    /**
+     * Get the most recent agent response of the current run
+     * @param since Only consider responses recorded at or after this time (ms since epoch)
+     */
+    public getLastResponse(since = 0): TranscriptTurn | undefined {
+        const turns = this.getTurns();
+        for (let i = turns.length - 1; i >= 0; i--) {
+            if (turns[i].timestamp < since) {
+                return undefined;
+            }
+            if (turns[i].role === 'agent') {
+                return turns[i];
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Register a listener for recorded turns
+     * @param listener The callback function to be called for each new turn
+     */
+    public onDidRecordTurn(listener: TurnListener): vscode.Disposable {
+        this.turnListeners.push(listener);
+
+        // Return a disposable to remove the listener
+        return {
+            dispose: () => {
+                const index = this.turnListeners.indexOf(listener);
+                if (index !== -1) {
+                    this.turnListeners.splice(index, 1);
+                }
+            }
+        };
+    }
+
+    /**
+     * Append a turn to the current run and notify listeners
+     * Turns outside of a run (e.g. manual @marco requests) are only forwarded to listeners.
+     */
+    private record(turn: Omit<TranscriptTurn, 'runId' | 'timestamp'>): void {
+        const entry: TranscriptTurn = { ...turn, runId: this.currentRunId || '', timestamp: Date.now() };
+        if (this.currentRunId) {
+            this.transcripts.get(this.currentRunId)?.push(entry);
+        }
+
+        for (const listener of this.turnListeners) {
+            listener(entry);
+        }
+    }
+}
@@ -1,6 +1,19 @@
 import * as vscode from 'vscode';
+import { ControlServer } from './controlServer';
+import { GitCheckpointStore } from './git/checkpoints';
+import { RunTreeNode } from './ui/runHistoryView';
 import { ensureChatOpen, isAgentIdle, sendChatMessage } from './utils/chatUtils';
-import { isWorkflowPaused, isWorkflowRunning, pauseWorkflow, resumeWorkflow, runWorkflow, setBackgroundMode, stopWorkflow } from './workflows/workflowManager';
+import { logger } from './utils/logger';
+import { getWebhooks, WebhookDispatcher } from './webhooks';
+import { copyPromptToWorkspace, listBundledPrompts, resolvePromptFile } from './workflows/promptLoader';
+import { formatRunAsMarkdown, RunHistory } from './workflows/runHistory';
+import { RunReporter } from './workflows/runReport';
+import { TaskQueue } from './workflows/taskQueue';
+import {
+    approveIteration, canReviewIteration, getCurrentRepoRoot, getCurrentRunId, isAwaitingApproval, isWorkflowPaused,
+    isWorkflowRunning, pauseWorkflow, rejectIteration, resumeWorkflow, revertIteration, reviewedIterationHasCheckpoint,
+    runWorkflow, setBackgroundMode, startWorkflow, stopWorkflow
+} from './workflows/workflowManager';
 
 export function registerCommands(context: vscode.ExtensionContext) {
     // Command to toggle workflow (play/stop)
@@ -34,6 +47,15 @@ export function registerCommands(context: vscode.ExtensionContext) {
         })
     );
 
+    // Command to resume a paused workflow; does nothing otherwise, e.g. from a stale notification
+    context.subscriptions.push(
+        vscode.commands.registerCommand('marco.resumeWorkflow', () => {
+            if (isWorkflowPaused()) {
+                resumeWorkflow(context);
+            }
+        })
+    );
+
     // Command to restart workflow
     context.subscriptions.push(
         vscode.commands.registerCommand('marco.restart', async () => {
@@ -55,7 +77,7 @@ export function registerCommands(context: vscode.ExtensionContext) {
             vscode.commands.executeCommand('workbench.view.explorer'); // Ensure explorer is visible
             vscode.commands.executeCommand('marco-ai.sidebar.focus').then(undefined, err => {
                 // Fallback if the specific focus command doesn't work
-                console.warn('Could not focus marco-ai.sidebar directly, ensuring explorer is visible.', err);
+                logger.warn('Could not focus marco-ai.sidebar directly, ensuring explorer is visible.', err);
                 vscode.commands.executeCommand('workbench.view.explorer');
             });
         })
@@ -95,4 +117,290 @@ export function registerCommands(context: vscode.ExtensionContext) {
             }
         })
     );
+
+    // Command to show the Marco AI output channel
+    context.subscriptions.push(
+        vscode.commands.registerCommand('marco.showLogs', () => {
+            logger.show();
+        })
+    );
+
+    // Commands offered by the notifications of finished runs
+    context.subscriptions.push(
+        vscode.commands.registerCommand('marco.openRunReport', async () => {
+            const report = await RunReporter.getInstance().getLastReport();
+            if (report) {
+                await vscode.window.showTextDocument(report.uri);
+            } else {
+                vscode.window.showInformationMessage('Marco AI: No run report has been written yet.');
+            }
+        }),
+        vscode.commands.registerCommand('marco.copyPullRequestDescription', async () => {
+            const report = await RunReporter.getInstance().getLastReport();
+            if (report) {
+                await vscode.env.clipboard.writeText(`${report.draft.title}\n\n${report.draft.body}`);
+                vscode.window.showInformationMessage('Marco AI: Pull request description copied to the clipboard.');
+            } else {
+                vscode.window.showInformationMessage('Marco AI: No run report has been written yet.');
+            }
+        }),
+        vscode.commands.registerCommand('marco.showRunChanges', async () => {
+            const runId = getCurrentRunId();
+            const opened = runId ? await GitCheckpointStore.getInstance().openRunChanges(runId, getCurrentRepoRoot()) : false;
+            if (!opened) {
+                vscode.window.showInformationMessage('Marco AI: The run did not change any files.');
+            }
+        })
+    );
+
+    // Command to check the webhook setup
+    context.subscriptions.push(
+        vscode.commands.registerCommand('marco.sendTestWebhook', async () => {
+            if (getWebhooks().length === 0) {
+                const choice = await vscode.window.showInformationMessage('Marco AI: No webhooks are configured.', 'Open Settings');
+                if (choice === 'Open Settings') {
+                    await vscode.commands.executeCommand('workbench.action.openSettings', 'marco.webhooks');
+                }
+                return;
+            }
+
+            const deliveries = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Marco AI: Sending test event to the webhooks' },
+                () => WebhookDispatcher.getInstance().sendTestEvent()
+            );
+            const failed = deliveries.filter(delivery => !delivery.delivered);
+            if (failed.length === 0) {
+                vscode.window.showInformationMessage(`Marco AI: Test event delivered to ${deliveries.length} webhook(s).`);
+            } else {
+                const details = failed.map(d => `${d.url} (${d.error ?? `HTTP ${d.status}`})`).join(', ');
+                vscode.window.showWarningMessage(`Marco AI: Test event failed for ${failed.length} of ${deliveries.length} webhook(s): ${details}`);
+            }
+        })
+    );
+
+    // Command to store the auth header of a webhook in the secret storage
+    context.subscriptions.push(
+        vscode.commands.registerCommand('marco.setWebhookAuthHeader', async () => {
+            const urls = getWebhooks().map(webhook => webhook.url);
+            if (urls.length === 0) {
+                vscode.window.showInformationMessage('Marco AI: Add a webhook to marco.webhooks first.');
+                return;
+            }
+
+            const url = urls.length === 1 ? urls[0] : await vscode.window.showQuickPick(urls, { placeHolder: 'Select a webhook' });
+            if (!url) {
+                return;
+            }
+            const value = await vscode.window.showInputBox({
+                prompt: `Auth header value for ${url}, e.g. "Bearer <token>". Leave empty to remove it.`,
+                password: true,
+                ignoreFocusOut: true
+            });
+            if (value === undefined) {
+                return;
+            }
+            await WebhookDispatcher.getInstance().setAuthHeader(url, value.trim() || undefined);
+            vscode.window.showInformationMessage(`Marco AI: Auth header ${value.trim() ? 'saved' : 'removed'} for ${url}.`);
+        })
+    );
+
+    // Commands to manage the token of the local control server
+    context.subscriptions.push(
+        vscode.commands.registerCommand('marco.copyControlServerToken', async () => {
+            await vscode.env.clipboard.writeText(await ControlServer.getInstance().getToken());
+            vscode.window.showInformationMessage('Marco AI: Control server token copied to the clipboard.');
+        }),
+        vscode.commands.registerCommand('marco.regenerateControlServerToken', async () => {
+            const choice = await vscode.window.showWarningMessage(
+                'Scripts using the current control server token will stop working.',
+                { modal: true },
+                'Regenerate'
+            );
+            if (choice === 'Regenerate') {
+                await vscode.env.clipboard.writeText(await ControlServer.getInstance().regenerateToken());
+                vscode.window.showInformationMessage('Marco AI: New control server token copied to the clipboard.');
+            }
+        })
+    );
+
+    // Command to add a task to the queue
+    context.subscriptions.push(
+        vscode.commands.registerCommand('marco.addTaskToQueue', async () => {
+            const description = await vscode.window.showInputBox({
+                prompt: 'Describe the task for Marco AI',
+                placeHolder: 'e.g. Add input validation to the signup form'
+            });
+            if (description?.trim()) {
+                await TaskQueue.getInstance().add(description.trim());
+            }
+        })
+    );
+
+    // Command to run the queued tasks one after another
+    context.subscriptions.push(
+        vscode.commands.registerCommand('marco.runTaskQueue', async () => {
+            try {
+                await TaskQueue.getInstance().start();
+            } catch (error) {
+                vscode.window.showWarningMessage(`Marco AI: ${error instanceof Error ? error.message : error}`);
+            }
+        })
+    );
+
+    // Commands to settle the review of an iteration (marco.reviewGate); they return whether a decision was made
+    context.subscriptions.push(
+        vscode.commands.registerCommand('marco.approveIteration', () => {
+            if (!canReviewIteration()) {
+                showNoReviewMessage();
+                return false;
+            }
+            approveIteration();
+            return true;
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('marco.rejectIteration', async () => {
+            if (!canReviewIteration()) {
+                showNoReviewMessage();
+                return false;
+            }
+            const feedback = await vscode.window.showInputBox({
+                prompt: 'What should the agent change? This is sent as the next prompt.',
+                placeHolder: 'e.g. Keep the public API unchanged and add a test for the empty case',
+                ignoreFocusOut: true
+            });
+            if (!feedback?.trim() || !canReviewIteration()) {
+                return false;
+            }
+            rejectIteration(feedback.trim());
+            return true;
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('marco.revertIteration', async () => {
+            if (!canReviewIteration()) {
+                showNoReviewMessage();
+                return false;
+            }
+            const warning = reviewedIterationHasCheckpoint()
+                ? 'The branch is reset to the previous checkpoint.'
+                : 'All uncommitted changes in the repository are discarded, including new files.';
+            const confirmed = await vscode.window.showWarningMessage(
+                `Revert the changes of this iteration? ${warning}`,
+                { modal: true },
+                'Revert'
+            );
+            if (confirmed !== 'Revert') {
+                return false;
+            }
+
+            const feedback = await vscode.window.showInputBox({
+                prompt: 'Optionally tell the agent why the changes were reverted',
+                ignoreFocusOut: true
+            });
+            if (!canReviewIteration()) {
+                showNoReviewMessage();
+                return false;
+            }
+            try {
+                await revertIteration(feedback?.trim() || undefined);
+                return true;
+            } catch (error) {
+                vscode.window.showErrorMessage(`Marco AI: ${error instanceof Error ? error.message : error}`);
+                return false;
+            }
+        })
+    );
+
+    // Command to copy a bundled prompt into the workspace for editing
+    context.subscriptions.push(
+        vscode.commands.registerCommand('marco.customizePrompt', async () => {
+            const fileName = await vscode.window.showQuickPick(await listBundledPrompts(context), {
+                placeHolder: 'Select a prompt to copy into .marco/prompts'
+            });
+            if (!fileName) {
+                return;
+            }
+
+            try {
+                // Keep an existing workspace copy unless the user wants it reset
+                const existing = await resolvePromptFile(context, fileName.replace(/\.[^.]+$/, ''));
+                let overwrite = false;
+                if (existing?.source === 'workspace') {
+                    const choice = await vscode.window.showWarningMessage(
+                        `The workspace already overrides ${fileName}.`,
+                        'Open Existing',
+                        'Reset to Default'
+                    );
+                    if (!choice) {
+                        return;
+                    }
+                    overwrite = choice === 'Reset to Default';
+                }
+
+                const target = await copyPromptToWorkspace(context, fileName, overwrite);
+                await vscode.window.showTextDocument(target);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Marco AI: ${error instanceof Error ? error.message : error}`);
+            }
+        })
+    );
+
+    // Commands of the Runs view context menu
+    context.subscriptions.push(
+        vscode.commands.registerCommand('marco.exportRunJson', async (node?: RunTreeNode) => {
+            const run = node && RunHistory.getInstance().getRun(node.run.runId);
+            if (run) {
+                await exportRun(`marco-run-${run.runId}.json`, JSON.stringify(run, null, 2), { JSON: ['json'] });
+            }
+        }),
+        vscode.commands.registerCommand('marco.exportRunMarkdown', async (node?: RunTreeNode) => {
+            const run = node && RunHistory.getInstance().getRun(node.run.runId);
+            if (run) {
+                await exportRun(`marco-run-${run.runId}.md`, formatRunAsMarkdown(run), { Markdown: ['md'] });
+            }
+        }),
+        vscode.commands.registerCommand('marco.deleteRun', async (node?: RunTreeNode) => {
+            if (node) {
+                await RunHistory.getInstance().delete(node.run.runId);
+            }
+        }),
+        vscode.commands.registerCommand('marco.rerunRun', (node?: RunTreeNode) => {
+            if (!node) {
+                return;
+            }
+            if (isWorkflowRunning()) {
+                vscode.window.showWarningMessage('Marco AI: Stop the current workflow before re-running a task.');
+                return;
+            }
+            startWorkflow(context, { taskDescription: node.run.taskDescription, settingsOverrides: node.run.settingsOverrides });
+        })
+    );
+}
+
+/**
+ * Explains why a review command cannot settle the review now
+ */
+function showNoReviewMessage(): void {
+    vscode.window.showInformationMessage(isAwaitingApproval() && isWorkflowPaused()
+        ? 'Marco AI: The workflow is paused. Resume it to review the iteration.'
+        : 'Marco AI: No iteration is awaiting review.');
+}
+
+/**
+ * Asks where to save an exported run and writes it
+ */
+async function exportRun(defaultName: string, content: string, filters: Record<string, string[]>): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, defaultName) : undefined,
+        filters
+    });
+    if (!target) {
+        return;
+    }
+    await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+    vscode.window.showInformationMessage(`Marco AI: Run exported to ${vscode.workspace.asRelativePath(target)}`);
 }
@@ -0,0 +1,325 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import * as http from 'http';
+import * as vscode from 'vscode';
+import { InvalidStateTransitionError } from './errors/workflow_errors';
+import { StatusManager, WorkflowState } from './statusManager';
+import { logger } from './utils/logger';
+import {
+    getCurrentRunId, getIterationCount, isWorkflowPaused, isWorkflowRunning, pauseWorkflow, resumeWorkflow,
+    startWorkflow, stopWorkflow
+} from './workflows/workflowManager';
+import { WorkflowRunner } from './workflows/workflowRunner';
+
+/**
+ * SecretStorage key of the token clients send as `Authorization: Bearer <token>`
+ */
+const TOKEN_SECRET_KEY = 'marco.controlServerToken';
+
+/** Default port of the control server */
+const DEFAULT_PORT = 7331;
+
+/** Largest request body accepted (bytes) */
+const MAX_BODY_SIZE = 64 * 1024;
+
+/** Interval of the keep-alive comments on event streams (ms) */
+const HEARTBEAT_INTERVAL = 15000;
+
+/**
+ * Error answered with an HTTP status other than 500
+ */
+class HttpError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+/**
+ * Opt-in HTTP server on localhost for controlling Marco from scripts
+ *
+ * - `GET /status`: current state of the workflow
+ * - `POST /start` with `{ "task": "...", "settingsOverrides": { ... } }`: start a run
+ * - `POST /stop`, `POST /pause`, `POST /resume`
+ * - `GET /events`: server-sent events, one `state` event per state change
+ *
+ * Every request needs the token from `Marco AI: Copy Control Server Token`.
+ */
+export class ControlServer {
+    private static instance: ControlServer;
+    private context: vscode.ExtensionContext | undefined;
+    private server: http.Server | undefined;
+    private port: number | undefined;
+    private token: string | undefined;
+    private eventStreams = new Set<http.ServerResponse>();
+
+    private constructor() { }
+
+    /**
+     * Get the singleton instance of ControlServer
+     */
+    public static getInstance(): ControlServer {
+        if (!ControlServer.instance) {
+            ControlServer.instance = new ControlServer();
+        }
+        return ControlServer.instance;
+    }
+
+    /**
+     * Start the server if `marco.controlServer.enabled` is on, and follow changes of the settings
+     * @param context The extension context
+     */
+    public initialize(context: vscode.ExtensionContext): void {
+        this.context = context;
+        context.subscriptions.push(
+            StatusManager.getInstance().onStateChanged((state, message) => this.broadcastState(state, message)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('marco.controlServer')) {
+                    this.applySettings();
+                }
+            }),
+            { dispose: () => this.stop() }
+        );
+        this.applySettings();
+    }
+
+    /**
+     * Get the token clients need, creating it on first use
+     */
+    public async getToken(): Promise<string> {
+        if (!this.token) {
+            this.token = await this.context?.secrets.get(TOKEN_SECRET_KEY);
+        }
+        if (!this.token) {
+            await this.regenerateToken();
+        }
+        return this.token as string;
+    }
+
+    /**
+     * Replace the token; clients using the old one are rejected from now on
+     */
+    public async regenerateToken(): Promise<string> {
+        this.token = randomBytes(32).toString('hex');
+        await this.context?.secrets.store(TOKEN_SECRET_KEY, this.token);
+        for (const stream of this.eventStreams) {
+            stream.end();
+        }
+        return this.token;
+    }
+
+    /**
+     * Get the port the server listens on, or undefined if it is not running
+     */
+    public getPort(): number | undefined {
+        return this.server ? this.port : undefined;
+    }
+
+    private applySettings(): void {
+        const config = vscode.workspace.getConfiguration('marco.controlServer');
+        const enabled = config.get<boolean>('enabled') ?? false;
+        const port = config.get<number>('port') ?? DEFAULT_PORT;
+
+        if (this.server && (!enabled || port !== this.port)) {
+            this.stop();
+        }
+        if (enabled && !this.server) {
+            this.start(port).catch(error => {
+                logger.error('Failed to start the control server:', error);
+                vscode.window.showErrorMessage(`Marco AI: Could not start the control server on port ${port}: ${error instanceof Error ? error.message : error}`);
+            });
+        }
+    }
+
+    private async start(port: number): Promise<void> {
+        await this.getToken();
+        const server = http.createServer((request, response) => {
+            this.handleRequest(request, response).catch(error => this.sendError(response, error));
+        });
+        this.server = server;
+        this.port = port;
+
+        try {
+            await new Promise<void>((resolve, reject) => {
+                server.once('error', reject);
+                server.listen(port, '127.0.0.1', () => {
+                    server.off('error', reject);
+                    resolve();
+                });
+            });
+        } catch (error) {
+            this.server = undefined;
+            throw error;
+        }
+        server.on('error', error => logger.error('Control server error:', error));
+        logger.info(`Control server listening on http://127.0.0.1:${port}`);
+    }
+
+    private stop(): void {
+        for (const stream of this.eventStreams) {
+            stream.end();
+        }
+        this.eventStreams.clear();
+        this.server?.close();
+        this.server?.closeAllConnections();
+        if (this.server) {
+            logger.info('Control server stopped');
+        }
+        this.server = undefined;
+    }
+
+    private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+        // Only accept requests addressed to localhost, which rules out DNS rebinding from web pages
+        const host = (request.headers.host ?? '').replace(/:\d+$/, '');
+        if (!['127.0.0.1', 'localhost'].includes(host)) {
+            throw new HttpError(403, 'Requests must be addressed to 127.0.0.1 or localhost');
+        }
+        if (!await this.isAuthorized(request.headers.authorization)) {
+            throw new HttpError(401, 'Missing or invalid token');
+        }
+
+        const route = `${request.method} ${new URL(request.url ?? '/', 'http://localhost').pathname}`;
+        logger.debug(`Control server: ${route}`);
+
+        switch (route) {
+            case 'GET /status':
+                this.sendJson(response, 200, this.getStatus());
+                return;
+
+            case 'GET /events':
+                this.openEventStream(response);
+                return;
+
+            case 'POST /start': {
+                const body = await readJsonBody(request);
+                if (body.task !== undefined && typeof body.task !== 'string') {
+                    throw new HttpError(400, "'task' must be a string");
+                }
+                if (body.settingsOverrides !== undefined && (typeof body.settingsOverrides !== 'object' || body.settingsOverrides === null)) {
+                    throw new HttpError(400, "'settingsOverrides' must be an object");
+                }
+                startWorkflow(this.context as vscode.ExtensionContext, {
+                    taskDescription: body.task as string | undefined,
+                    settingsOverrides: body.settingsOverrides as Record<string, unknown> | undefined
+                });
+                this.sendJson(response, 202, this.getStatus());
+                return;
+            }
+
+            case 'POST /stop':
+                await stopWorkflow();
+                this.sendJson(response, 200, this.getStatus());
+                return;
+
+            case 'POST /pause':
+                pauseWorkflow();
+                this.sendJson(response, 200, this.getStatus());
+                return;
+
+            case 'POST /resume':
+                resumeWorkflow(this.context as vscode.ExtensionContext);
+                this.sendJson(response, 200, this.getStatus());
+                return;
+
+            default:
+                throw new HttpError(404, `Unknown endpoint: ${route}`);
+        }
+    }
+
+    private async isAuthorized(header: string | undefined): Promise<boolean> {
+        const match = /^Bearer\s+(\S+)$/i.exec(header ?? '');
+        if (!match) {
+            return false;
+        }
+        const expected = Buffer.from(await this.getToken());
+        const received = Buffer.from(match[1]);
+        return expected.length === received.length && timingSafeEqual(expected, received);
+    }
+
+    private getStatus(): Record<string, unknown> {
+        return {
+            state: StatusManager.getInstance().getState(),
+            running: isWorkflowRunning(),
+            paused: isWorkflowPaused(),
+            runId: getCurrentRunId(),
+            iteration: getIterationCount() + 1,
+            task: WorkflowRunner.getInstance().getTaskDescription()
+        };
+    }
+
+    private openEventStream(response: http.ServerResponse): void {
+        response.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive'
+        });
+        response.write(`event: state\ndata: ${JSON.stringify(this.getStatus())}\n\n`);
+        this.eventStreams.add(response);
+
+        const heartbeat = setInterval(() => response.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL);
+        response.on('close', () => {
+            clearInterval(heartbeat);
+            this.eventStreams.delete(response);
+        });
+    }
+
+    private broadcastState(state: WorkflowState, message?: string): void {
+        if (this.eventStreams.size === 0) {
+            return;
+        }
+        const data = JSON.stringify({ ...this.getStatus(), state, message });
+        for (const stream of this.eventStreams) {
+            stream.write(`event: state\ndata: ${data}\n\n`);
+        }
+    }
+
+    private sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+    }
+
+    private sendError(response: http.ServerResponse, error: unknown): void {
+        const status = error instanceof HttpError ? error.status
+            : error instanceof InvalidStateTransitionError ? 409
+            : 500;
+        if (status === 500) {
+            logger.error('Control server request failed:', error);
+        }
+        if (!response.headersSent) {
+            this.sendJson(response, status, { error: error instanceof Error ? error.message : String(error) });
+        } else {
+            response.end();
+        }
+    }
+}
+
+/**
+ * Reads a JSON object from a request body; an empty body is an empty object
+ */
+function readJsonBody(request: http.IncomingMessage): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        request.setEncoding('utf8');
+        request.on('data', (chunk: string) => {
+            body += chunk;
+            if (body.length > MAX_BODY_SIZE) {
+                // Drain the rest so the error response can still be sent
+                request.removeAllListeners('data');
+                request.resume();
+                reject(new HttpError(413, 'Request body too large'));
+            }
+        });
+        request.on('end', () => {
+            try {
+                const parsed = body.trim() ? JSON.parse(body) : {};
+                if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+                    reject(new HttpError(400, 'The request body must be a JSON object'));
+                    return;
+                }
+                resolve(parsed);
+            } catch {
+                reject(new HttpError(400, 'The request body is not valid JSON'));
+            }
+        });
+        request.on('error', reject);
+    });
+}
@@ -57,4 +57,24 @@ export class PromptLoadError extends Error {
         super(message);
         this.name = 'PromptLoadError';
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Custom error type for invalid workflow state transitions
+ */
+export class InvalidStateTransitionError extends Error {
+    constructor(from: string, to: string) {
+        super(`Invalid workflow state transition from '${from}' to '${to}'`);
+        this.name = 'InvalidStateTransitionError';
+    }
+}
+
+/**
+ * Custom error type for verification commands that still fail when the run ends
+ */
+export class VerificationFailedError extends Error {
+    constructor(failedChecks: string[]) {
+        super(`Verification failed: ${failedChecks.join(', ')}`);
+        this.name = 'VerificationFailedError';
+    }
+}
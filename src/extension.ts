@@ -1,9 +1,22 @@
 import * as vscode from 'vscode';
+import { createExtensionExports, MarcoExtensionExports } from './api';
+import { registerMarcoParticipant } from './chat/marcoParticipant';
 import { registerCommands } from './commands';
+import { ControlServer } from './controlServer';
+import { GitCheckpointStore } from './git/checkpoints';
 import { clearMonitoringTimers, setupMonitoringTimers } from './monitoring';
+import { registerStateNotifications } from './notifications';
 import { StatusManager } from './statusManager';
 import { FloatingControlsPanel } from './ui/floatingControlsPanel';
+import { RunHistoryProvider } from './ui/runHistoryView';
 import { SidebarProvider } from './ui/sidebarProvider';
+import { MarcoUriHandler } from './uriHandler';
+import { logger } from './utils/logger';
+import { WebhookDispatcher } from './webhooks';
+import { RunHistory } from './workflows/runHistory';
+import { RunReporter } from './workflows/runReport';
+import { TaskQueue } from './workflows/taskQueue';
+import { offerToResumeInterruptedRun } from './workflows/workflowManager';
 
 // Global variable to hold the floating controls panel instance
 let floatingControlsPanel: FloatingControlsPanel | undefined;
@@ -48,12 +61,22 @@ function showWelcomePage(context: vscode.ExtensionContext) {
  * Sets up the status manager, UI components, commands, and timers.
  * @param context The extension context provided by VSCode.
  */
-export function activate(context: vscode.ExtensionContext) {
-	console.log('Marco AI extension is now active');
+export function activate(context: vscode.ExtensionContext): MarcoExtensionExports {
+	logger.initialize(context);
+	logger.info('Marco AI extension is now active');
 
 	// Initialize status manager
 	const statusManager = StatusManager.getInstance();
 	statusManager.initialize(context);
+	registerStateNotifications(context);
+
+	// Restore the task queue
+	TaskQueue.getInstance().initialize(context);
+	GitCheckpointStore.getInstance().initialize(context);
+	RunReporter.getInstance().initialize(context);
+	RunHistory.getInstance().initialize(context);
+	WebhookDispatcher.getInstance().initialize(context);
+	ControlServer.getInstance().initialize(context);
 
 	// Create sidebar
 	const sidebarProvider = new SidebarProvider(context.extensionUri, context);
@@ -64,6 +87,11 @@ export function activate(context: vscode.ExtensionContext) {
 		)
 	);
 
+	// Create the Runs view
+	context.subscriptions.push(
+		vscode.window.registerTreeDataProvider("marco-ai.runs", new RunHistoryProvider(context))
+	);
+
 	// Initialize the floating controls panel
 	floatingControlsPanel = new FloatingControlsPanel(context);
 
@@ -82,6 +110,12 @@ export function activate(context: vscode.ExtensionContext) {
 	// Register commands from the dedicated file
 	registerCommands(context);
 
+	// Register the @marco chat participant that captures agent responses
+	registerMarcoParticipant(context);
+
+	// Start runs from vscode://<publisher>.marco-ai/run links
+	context.subscriptions.push(vscode.window.registerUriHandler(new MarcoUriHandler(context)));
+
 	// Set up timers for monitoring from the dedicated file
 	setupMonitoringTimers(context);
 
@@ -97,8 +131,14 @@ export function activate(context: vscode.ExtensionContext) {
 		context.globalState.update('marco.hasShownWelcome', true);
 	}
 
+	// Offer to resume a run interrupted by a reload or crash
+	offerToResumeInterruptedRun(context);
+
 	// Notify user
 	vscode.window.showInformationMessage('Marco AI is ready to help!');
+
+	// Let other extensions drive Marco
+	return createExtensionExports(context);
 }
 
 /**
@@ -106,7 +146,7 @@ export function activate(context: vscode.ExtensionContext) {
  * Cleans up resources like the floating controls panel and timers.
  */
 export function deactivate() {
-	console.log('Marco AI extension is now deactivated');
+	logger.info('Marco AI extension is now deactivated');
 
 	// **Clean Up Resources**
 	// Dispose of the floating controls panel if it exists
@@ -0,0 +1,87 @@
+import { renderPrompt } from '../workflows/promptTemplate';
+
+/**
+ * Kinds of task, used as branch prefix (see src/prompts/new_branch.txt)
+ */
+export type TaskType = 'feature' | 'bugfix' | 'refactor' | 'improvement';
+
+/**
+ * Default value of the `marco.branchNameTemplate` setting
+ */
+export const DEFAULT_BRANCH_NAME_TEMPLATE = '${type}/${slug}';
+
+/** Maximum length of the slug derived from the task description */
+const MAX_SLUG_LENGTH = 40;
+
+/**
+ * Keywords that identify a task type, checked in order; anything else is a feature
+ */
+const TASK_TYPE_KEYWORDS: ReadonlyArray<[TaskType, RegExp]> = [
+    ['bugfix', /\b(fix|fixes|fixed|bug|bugs|crash|broken|regression|error)\b/i],
+    ['refactor', /\b(refactor|refactoring|restructure|clean ?up|rename|extract)\b/i],
+    ['improvement', /\b(improve|improvement|optimi[sz]e|speed up|performance|enhance)\b/i]
+];
+
+/**
+ * Guesses the task type from its description
+ * @param taskDescription The task description
+ */
+export function inferTaskType(taskDescription: string): TaskType {
+    const match = TASK_TYPE_KEYWORDS.find(([, pattern]) => pattern.test(taskDescription));
+    return match ? match[0] : 'feature';
+}
+
+/**
+ * Turns a task description into a short kebab-case slug
+ * @param text The task description
+ * @returns The slug, cut at a word boundary; `task` if nothing usable is left
+ */
+export function slugify(text: string): string {
+    const slug = text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+
+    if (slug.length <= MAX_SLUG_LENGTH) {
+        return slug || 'task';
+    }
+    const cut = slug.slice(0, MAX_SLUG_LENGTH + 1);
+    const lastDash = cut.lastIndexOf('-');
+    return (lastDash > 0 ? cut.slice(0, lastDash) : cut.slice(0, MAX_SLUG_LENGTH)) || 'task';
+}
+
+/**
+ * Builds a branch name from a template
+ * The template may use `${type}`, `${slug}`, `${date}` (YYYY-MM-DD) and `${timestamp}`.
+ * @param template The branch name template
+ * @param taskDescription The task of the run
+ * @param taskType The task type
+ * @returns A valid git branch name
+ */
+export function formatBranchName(template: string, taskDescription: string, taskType: TaskType): string {
+    const now = new Date();
+    const name = renderPrompt(template || DEFAULT_BRANCH_NAME_TEMPLATE, {
+        type: taskType,
+        slug: slugify(taskDescription),
+        date: now.toISOString().slice(0, 10),
+        timestamp: now.getTime()
+    });
+    return sanitizeBranchName(name) || `${taskType}/marco-${now.getTime()}`;
+}
+
+/**
+ * Removes what git does not allow in branch names (see `git check-ref-format`)
+ */
+function sanitizeBranchName(name: string): string {
+    return name
+        .replace(/[\s~^:?*[\\\x00-\x1f\x7f]+/g, '-')
+        .replace(/\.{2,}/g, '.')
+        .replace(/@\{/g, '-')
+        .replace(/\/{2,}/g, '/')
+        .split('/')
+        .map(part => part.replace(/^[.-]+|\.lock$|\.+$/g, ''))
+        .filter(Boolean)
+        .join('/');
+}
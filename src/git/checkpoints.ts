@@ -0,0 +1,317 @@
+import * as vscode from 'vscode';
+import { GitOperationError } from '../errors/workflow_errors';
+import {
+    discardWorkingTreeChanges, getDiffStats, getGitApi, listUncommittedPaths, openWorkingTreeChanges, runGit, stashWorkingTree
+} from './gitService';
+
+/**
+ * Workspace state key under which the checkpoints are stored
+ */
+const CHECKPOINTS_KEY = 'marco.gitCheckpoints';
+
+/** Number of runs whose checkpoints are kept */
+const MAX_RUNS = 10;
+
+/** Marco's own files (e.g. run reports), never part of a checkpoint */
+const MARCO_DIR = '.marco/';
+
+/**
+ * A commit recorded by Marco during a run
+ */
+export interface GitCheckpoint {
+    id: string;
+    runId: string;
+    /** Iteration the commit ends (1-based); 0 is the state before the first iteration */
+    iteration: number;
+    /** Last step of the iteration */
+    stepId?: string;
+    commit: string;
+    message: string;
+    repoRoot: string;
+    createdAt: number;
+    /** Base checkpoint only: stash entry with the uncommitted changes when the run started */
+    stash?: string;
+    /** Base checkpoint only: files with uncommitted changes when the run started, left out of the commits */
+    preexistingChanges?: string[];
+}
+
+type CheckpointListener = (checkpoints: GitCheckpoint[]) => void;
+
+/**
+ * Records a commit per workflow iteration on the run's branch,
+ * so the changes of an iteration can be reviewed and rolled back
+ */
+export class GitCheckpointStore {
+    private static instance: GitCheckpointStore;
+    private context: vscode.ExtensionContext | undefined;
+    private checkpoints: GitCheckpoint[] = [];
+    private checkpointListeners: CheckpointListener[] = [];
+
+    private constructor() { }
+
+    /**
+     * Get the singleton instance of GitCheckpointStore
+     */
+    public static getInstance(): GitCheckpointStore {
+        if (!GitCheckpointStore.instance) {
+            GitCheckpointStore.instance = new GitCheckpointStore();
+        }
+        return GitCheckpointStore.instance;
+    }
+
+    /**
+     * Initialize the store with extension context and restore saved checkpoints
+     * @param context The extension context
+     */
+    public initialize(context: vscode.ExtensionContext): void {
+        this.context = context;
+        this.checkpoints = context.workspaceState.get<GitCheckpoint[]>(CHECKPOINTS_KEY) || [];
+    }
+
+    /**
+     * Get the checkpoints of a run in order
+     * @param runId The run, defaults to the most recent run with checkpoints
+     */
+    public getCheckpoints(runId?: string): GitCheckpoint[] {
+        const targetRun = runId ?? this.checkpoints[this.checkpoints.length - 1]?.runId;
+        return this.checkpoints.filter(checkpoint => checkpoint.runId === targetRun).map(c => ({ ...c }));
+    }
+
+    /**
+     * Records the current HEAD as the state before the run's first iteration
+     * The uncommitted changes at that point are the user's: they are saved as a stash entry
+     * (restored after a rollback) and their files are never committed by the run.
+     * @param runId The run
+     * @param repoRoot Root folder of the repository the run works in
+     */
+    public async recordBase(runId: string, repoRoot: string): Promise<void> {
+        const commit = (await runGit(repoRoot, ['rev-parse', 'HEAD'])).trim();
+        const stash = await stashWorkingTree(repoRoot, `Marco AI: uncommitted changes before run ${runId}`);
+        const preexistingChanges = await listUncommittedPaths(repoRoot);
+        await this.add({ runId, iteration: 0, commit, message: 'Start of run', repoRoot, stash, preexistingChanges });
+    }
+
+    /**
+     * Commits the changes of an iteration
+     * Only the files changed since the previous checkpoint are committed: files that had uncommitted
+     * changes when the run started and Marco's own files stay out, and so does anything else staged.
+     * Does nothing if the run has no base checkpoint (it did not create its own branch)
+     * or if the iteration changed nothing.
+     * @param runId The run
+     * @param iteration The iteration that ended (1-based)
+     * @param stepId Last step of the iteration
+     * @param taskDescription The task of the run, added to the commit message
+     * @param runHooks Whether to run the repository's commit hooks; off by default, as a hook that
+     * fails on unfinished work would leave the iteration without a checkpoint
+     * @throws GitOperationError if the commit fails
+     */
+    public async commitIteration(
+        runId: string, iteration: number, stepId: string | undefined, taskDescription: string, runHooks = false
+    ): Promise<void> {
+        const base = this.checkpoints.find(checkpoint => checkpoint.runId === runId && checkpoint.iteration === 0);
+        if (!base) {
+            return;
+        }
+
+        const excluded = new Set(base.preexistingChanges ?? []);
+        const paths = (await listUncommittedPaths(base.repoRoot))
+            .filter(file => !excluded.has(file) && !file.startsWith(MARCO_DIR));
+        if (paths.length === 0) {
+            return;
+        }
+
+        const pathspecs = paths.map(file => `:(literal)${file}`);
+        const message = `Marco AI: iteration #${iteration}${stepId ? ` (after ${stepId})` : ''}`;
+        const body = taskDescription.split('\n')[0];
+        await runGit(base.repoRoot, ['add', '--all', '--', ...pathspecs]);
+        await runGit(base.repoRoot, [
+            'commit', ...(runHooks ? [] : ['--no-verify']), '-m', message, '-m', `Task: ${body}`, '--', ...pathspecs
+        ]);
+        const commit = (await runGit(base.repoRoot, ['rev-parse', 'HEAD'])).trim();
+        await this.add({ runId, iteration, stepId, commit, message, repoRoot: base.repoRoot });
+    }
+
+    /**
+     * Opens the changes between a checkpoint and the one before it
+     * @param id The checkpoint
+     */
+    public async diffAgainstPrevious(id: string): Promise<void> {
+        const checkpoint = this.checkpoints.find(c => c.id === id);
+        const runCheckpoints = checkpoint ? this.getCheckpoints(checkpoint.runId) : [];
+        const index = runCheckpoints.findIndex(c => c.id === id);
+        if (!checkpoint || index <= 0) {
+            vscode.window.showInformationMessage('Marco AI: This checkpoint has no previous checkpoint to compare with.');
+            return;
+        }
+        const previous = runCheckpoints[index - 1];
+
+        const gitApi = getGitApi();
+        if (!gitApi) {
+            vscode.window.showWarningMessage('Git extension not found or not activated');
+            return;
+        }
+
+        const output = await runGit(checkpoint.repoRoot, ['diff', '--name-only', previous.commit, checkpoint.commit]);
+        const files = output.split('\n').filter(Boolean);
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('Marco AI: No changes between the checkpoints.');
+            return;
+        }
+
+        const rootUri = vscode.Uri.file(checkpoint.repoRoot);
+        const resources = files.map(file => {
+            const uri = vscode.Uri.joinPath(rootUri, file);
+            return [uri, gitApi.toGitUri(uri, previous.commit), gitApi.toGitUri(uri, checkpoint.commit)];
+        });
+        await vscode.commands.executeCommand('vscode.changes', `Marco AI: ${checkpoint.message}`, resources);
+    }
+
+    /**
+     * Resets the run's branch to a checkpoint, discarding the iterations after it
+     * The uncommitted changes are saved as a stash entry first, and the changes the user had
+     * when the run started are applied again afterwards.
+     * @param id The checkpoint
+     * @throws GitOperationError if the reset fails or the user's changes cannot be applied again
+     */
+    public async rollbackTo(id: string): Promise<void> {
+        const checkpoint = this.checkpoints.find(c => c.id === id);
+        if (!checkpoint) {
+            return;
+        }
+        const base = this.checkpoints.find(c => c.runId === checkpoint.runId && c.iteration === 0);
+
+        await stashWorkingTree(checkpoint.repoRoot, `Marco AI: uncommitted changes before rolling back to ${checkpoint.message}`);
+        await runGit(checkpoint.repoRoot, ['reset', '--hard', checkpoint.commit]);
+
+        // Later checkpoints of the run no longer exist on the branch
+        this.checkpoints = this.checkpoints.filter(c =>
+            c.runId !== checkpoint.runId || c.iteration <= checkpoint.iteration
+        );
+        await this.save();
+
+        if (base?.stash) {
+            try {
+                await runGit(checkpoint.repoRoot, ['stash', 'apply', base.stash]);
+            } catch (error) {
+                throw new GitOperationError(`Rolled back, but your changes from before the run could not be applied again; ` +
+                    `they are kept in the stash list (${base.stash.slice(0, 7)}): ${error instanceof Error ? error.message : error}`);
+            }
+        }
+    }
+
+    /**
+     * Whether the changes of an iteration were committed as a checkpoint
+     * @param runId The run
+     * @param iteration The iteration (1-based)
+     */
+    public hasCheckpoint(runId: string, iteration: number): boolean {
+        return this.checkpoints.some(c => c.runId === runId && c.iteration === iteration);
+    }
+
+    /**
+     * Opens the changes the agent made in an iteration
+     * Uses the iteration's checkpoint when there is one, the uncommitted changes otherwise.
+     * @param runId The run
+     * @param iteration The iteration (1-based)
+     * @param repoRoot Root folder of the run's repository, for the uncommitted changes
+     */
+    public async openIterationChanges(runId: string, iteration: number, repoRoot?: string): Promise<void> {
+        const checkpoint = this.checkpoints.find(c => c.runId === runId && c.iteration === iteration);
+        if (checkpoint) {
+            await this.diffAgainstPrevious(checkpoint.id);
+        } else if (!await openWorkingTreeChanges(`Marco AI: changes of iteration #${iteration}`, repoRoot)) {
+            vscode.window.showInformationMessage(`Marco AI: Iteration #${iteration} did not change any files.`);
+        }
+    }
+
+    /**
+     * Opens all changes of a run: since its start when Marco created its branch, the uncommitted changes otherwise
+     * @param runId The run
+     * @param repoRoot Root folder of the run's repository, for the uncommitted changes
+     * @returns False if there are no changes to show
+     */
+    public async openRunChanges(runId: string, repoRoot?: string): Promise<boolean> {
+        const base = this.checkpoints.find(c => c.runId === runId && c.iteration === 0);
+        if (!base) {
+            return openWorkingTreeChanges('Marco AI: uncommitted changes', repoRoot);
+        }
+
+        const gitApi = getGitApi();
+        const files = gitApi ? await getDiffStats(base.repoRoot, base.commit) : [];
+        if (!gitApi || files.length === 0) {
+            return false;
+        }
+
+        const rootUri = vscode.Uri.file(base.repoRoot);
+        const resources = files.map(file => {
+            const uri = vscode.Uri.joinPath(rootUri, file.path);
+            return [uri, file.untracked ? undefined : gitApi.toGitUri(uri, base.commit), uri];
+        });
+        await vscode.commands.executeCommand('vscode.changes', `Marco AI: changes of run ${runId}`, resources);
+        return true;
+    }
+
+    /**
+     * Undoes the changes the agent made in an iteration
+     * Rolls back to the previous checkpoint when the iteration has one;
+     * otherwise moves all uncommitted changes to a stash entry.
+     * @param runId The run
+     * @param iteration The iteration (1-based)
+     * @param repoRoot Root folder of the run's repository, for the uncommitted changes
+     * @throws GitOperationError if git fails
+     */
+    public async revertIteration(runId: string, iteration: number, repoRoot?: string): Promise<void> {
+        const runCheckpoints = this.getCheckpoints(runId);
+        const index = runCheckpoints.findIndex(c => c.iteration === iteration);
+        if (index > 0) {
+            await this.rollbackTo(runCheckpoints[index - 1].id);
+        } else {
+            await discardWorkingTreeChanges(`Marco AI: changes of iteration #${iteration} of run ${runId}`, repoRoot);
+        }
+    }
+
+    /**
+     * Register a listener for checkpoint changes
+     * @param listener The callback function to be called when the checkpoints change
+     */
+    public onCheckpointsChanged(listener: CheckpointListener): vscode.Disposable {
+        this.checkpointListeners.push(listener);
+
+        // Return a disposable to remove the listener
+        return {
+            dispose: () => {
+                const index = this.checkpointListeners.indexOf(listener);
+                if (index !== -1) {
+                    this.checkpointListeners.splice(index, 1);
+                }
+            }
+        };
+    }
+
+    private async add(checkpoint: Omit<GitCheckpoint, 'id' | 'createdAt'>): Promise<void> {
+        this.checkpoints.push({
+            ...checkpoint,
+            id: `${checkpoint.runId}-${checkpoint.iteration}`,
+            createdAt: Date.now()
+        });
+
+        // Keep the checkpoints of the most recent runs only
+        const runIds = [...new Set(this.checkpoints.map(c => c.runId))];
+        if (runIds.length > MAX_RUNS) {
+            const keep = new Set(runIds.slice(-MAX_RUNS));
+            this.checkpoints = this.checkpoints.filter(c => keep.has(c.runId));
+        }
+        await this.save();
+    }
+
+    /**
+     * Persist the checkpoints and notify listeners
+     */
+    private async save(): Promise<void> {
+        const checkpoints = this.getCheckpoints();
+        for (const listener of this.checkpointListeners) {
+            listener(checkpoints);
+        }
+        await this.context?.workspaceState.update(CHECKPOINTS_KEY, this.checkpoints);
+    }
+}
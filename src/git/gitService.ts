@@ -0,0 +1,292 @@
+import { execFile } from 'child_process';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { GitOperationError } from '../errors/workflow_errors';
+import { DEFAULT_BRANCH_NAME_TEMPLATE, formatBranchName, inferTaskType, TaskType } from './branchNaming';
+
+/** Highest numeric suffix tried when a branch name is taken */
+const MAX_BRANCH_SUFFIX = 50;
+
+/**
+ * The subset of the built-in Git extension's repository API used by Marco
+ */
+export interface GitRepository {
+    readonly rootUri: vscode.Uri;
+    readonly state: {
+        readonly HEAD?: { readonly name?: string; readonly commit?: string };
+        readonly workingTreeChanges: ReadonlyArray<{ readonly uri: vscode.Uri }>;
+        readonly indexChanges: ReadonlyArray<{ readonly uri: vscode.Uri }>;
+    };
+    createBranch(name: string, checkout: boolean): Promise<void>;
+}
+
+/**
+ * The subset of the built-in Git extension's API used by Marco
+ */
+export interface GitApi {
+    readonly repositories: GitRepository[];
+    /** Builds a URI for the content of a file at a given ref */
+    toGitUri(uri: vscode.Uri, ref: string): vscode.Uri;
+}
+
+/**
+ * Gets the API of the built-in Git extension
+ * @returns The API, or undefined if the Git extension is not available
+ */
+export function getGitApi(): GitApi | undefined {
+    const gitExtension = vscode.extensions.getExtension<any>('vscode.git');
+    if (!gitExtension?.isActive) {
+        return undefined;
+    }
+    return gitExtension.exports.getAPI(1) as GitApi;
+}
+
+/**
+ * Gets the repositories known to the built-in Git extension
+ * @returns The repositories, or undefined if the Git extension is not available
+ */
+export function getRepositories(): GitRepository[] | undefined {
+    return getGitApi()?.repositories;
+}
+
+/**
+ * Gets the repository Marco works in
+ * @param repoRoot Root folder of the run's repository; the first repository of the workspace when missing
+ * @returns The repository, or undefined if there is none
+ */
+export function getRepository(repoRoot?: string): GitRepository | undefined {
+    const repositories = getRepositories();
+    return repoRoot === undefined
+        ? repositories?.[0]
+        : repositories?.find(repository => repository.rootUri.fsPath === repoRoot);
+}
+
+/**
+ * Lists the files with uncommitted changes (staged or not)
+ * @param repoRoot Root folder of the run's repository, see getRepository
+ * @returns Workspace-relative paths of the changed files
+ */
+export function getChangedFiles(repoRoot?: string): string[] {
+    const repo = getRepository(repoRoot);
+    if (!repo) {
+        return [];
+    }
+
+    const changes = [...repo.state.indexChanges, ...repo.state.workingTreeChanges];
+    const paths = changes.map(change => vscode.workspace.asRelativePath(change.uri));
+    return [...new Set(paths)];
+}
+
+/**
+ * Lines added and deleted in a file
+ */
+export interface FileChangeStats {
+    /** Path relative to the repository root */
+    path: string;
+    /** Undefined for binary and untracked files */
+    added?: number;
+    deleted?: number;
+    untracked?: boolean;
+}
+
+/**
+ * Lists the files changed since a commit, including uncommitted and untracked files
+ * @param repoRoot Root folder of the repository
+ * @param base The commit to compare the working tree with
+ * @throws GitOperationError if git fails
+ */
+export async function getDiffStats(repoRoot: string, base: string): Promise<FileChangeStats[]> {
+    const numstat = await runGit(repoRoot, ['diff', '--numstat', base]);
+    const stats: FileChangeStats[] = numstat.split('\n').filter(Boolean).map(line => {
+        const [added, deleted, ...pathParts] = line.split('\t');
+        return {
+            path: pathParts.join('\t'),
+            added: added === '-' ? undefined : Number(added),
+            deleted: deleted === '-' ? undefined : Number(deleted)
+        };
+    });
+
+    const untracked = await runGit(repoRoot, ['ls-files', '--others', '--exclude-standard']);
+    for (const file of untracked.split('\n').filter(Boolean)) {
+        stats.push({ path: file, untracked: true });
+    }
+    return stats;
+}
+
+/**
+ * Opens a multi-file diff of the uncommitted changes against HEAD
+ * @param title Title of the diff editor
+ * @param repoRoot Root folder of the run's repository, see getRepository
+ * @returns False if there are no changes to show
+ */
+export async function openWorkingTreeChanges(title: string, repoRoot?: string): Promise<boolean> {
+    const gitApi = getGitApi();
+    const repo = getRepository(repoRoot);
+    if (!gitApi || !repo) {
+        return false;
+    }
+
+    const changes = [...repo.state.indexChanges, ...repo.state.workingTreeChanges];
+    const uris = [...new Map(changes.map(change => [change.uri.toString(), change.uri])).values()];
+    if (uris.length === 0) {
+        return false;
+    }
+
+    const resources = uris.map(uri => [uri, gitApi.toGitUri(uri, 'HEAD'), uri]);
+    await vscode.commands.executeCommand('vscode.changes', title, resources);
+    return true;
+}
+
+/**
+ * Clears the uncommitted changes, including new untracked files
+ * The changes are stashed rather than deleted, so `git stash pop` brings them back.
+ * @param message Message of the stash entry
+ * @param repoRoot Root folder of the run's repository, see getRepository
+ * @throws GitOperationError if the repository is not found or git fails
+ */
+export async function discardWorkingTreeChanges(message: string, repoRoot?: string): Promise<void> {
+    const repo = getRepository(repoRoot);
+    if (!repo) {
+        throw new GitOperationError(repoRoot
+            ? `Repository '${repoRoot}' not found in the workspace`
+            : 'No Git repositories found in the workspace');
+    }
+    await runGit(repo.rootUri.fsPath, ['stash', 'push', '--include-untracked', '-m', message]);
+}
+
+/**
+ * Saves the uncommitted changes to tracked files as a stash entry, leaving the working tree as it is
+ * @param repoRoot Root folder of the repository
+ * @param message Message of the stash entry
+ * @returns The stash commit, or undefined if there are no changes to save
+ * @throws GitOperationError if git fails
+ */
+export async function stashWorkingTree(repoRoot: string, message: string): Promise<string | undefined> {
+    const stash = (await runGit(repoRoot, ['stash', 'create', message])).trim();
+    if (!stash) {
+        return undefined;
+    }
+    await runGit(repoRoot, ['stash', 'store', '-m', message, stash]);
+    return stash;
+}
+
+/**
+ * Lists the files that differ from HEAD, including untracked files
+ * @param repoRoot Root folder of the repository
+ * @returns Paths relative to the repository root
+ * @throws GitOperationError if git fails
+ */
+export async function listUncommittedPaths(repoRoot: string): Promise<string[]> {
+    const changed = await runGit(repoRoot, ['diff', '--name-only', '--no-renames', '-z', 'HEAD']);
+    const untracked = await runGit(repoRoot, ['ls-files', '--others', '--exclude-standard', '-z']);
+    return [...new Set([...changed.split('\0'), ...untracked.split('\0')].filter(Boolean))];
+}
+
+/**
+ * Options for createAndCheckoutBranch
+ */
+export interface CreateBranchOptions {
+    /** Task of the run, used for the slug and to infer the task type */
+    taskDescription: string;
+    /** Task type, or `auto` to infer it from the description */
+    taskType?: TaskType | 'auto';
+    /** Branch name template (defaults to `${type}/${slug}`) */
+    template?: string;
+}
+
+/**
+ * Creates and checks out a new branch named after the task
+ * In multi-repository workspaces the user picks the repository. When the name is taken,
+ * a numeric suffix is added (`feature/add-login-2`).
+ * @param options The task and naming options
+ * @returns The name of the created branch and the repository it was created in
+ * @throws GitOperationError if there is no repository or the branch cannot be created
+ */
+export async function createAndCheckoutBranch(
+    options: CreateBranchOptions
+): Promise<{ branchName: string; repository: GitRepository }> {
+    const repository = await pickRepository();
+    const taskType = !options.taskType || options.taskType === 'auto'
+        ? inferTaskType(options.taskDescription)
+        : options.taskType;
+    const baseName = formatBranchName(options.template || DEFAULT_BRANCH_NAME_TEMPLATE, options.taskDescription, taskType);
+
+    const repoRoot = repository.rootUri.fsPath;
+    let branchName = baseName;
+    for (let suffix = 2; await branchExists(repoRoot, branchName); suffix++) {
+        if (suffix > MAX_BRANCH_SUFFIX) {
+            throw new GitOperationError(`Could not find a free branch name for '${baseName}'`);
+        }
+        branchName = `${baseName}-${suffix}`;
+    }
+
+    try {
+        await repository.createBranch(branchName, true);
+    } catch (error) {
+        throw new GitOperationError(`Failed to create branch '${branchName}': ${error instanceof Error ? error.message : error}`);
+    }
+
+    vscode.window.showInformationMessage(`Created and checked out branch: ${branchName}`);
+    return { branchName, repository };
+}
+
+/**
+ * Gets the repository to work in, asking the user when the workspace has several
+ * @throws GitOperationError if there is no repository or the user cancels the choice
+ */
+export async function pickRepository(): Promise<GitRepository> {
+    const repositories = getRepositories();
+    if (!repositories) {
+        throw new GitOperationError('Git extension not found or not activated');
+    }
+    if (repositories.length === 0) {
+        throw new GitOperationError('No Git repositories found in the workspace');
+    }
+    if (repositories.length === 1) {
+        return repositories[0];
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        repositories.map(repository => ({
+            label: path.basename(repository.rootUri.fsPath),
+            description: repository.state.HEAD?.name,
+            detail: repository.rootUri.fsPath,
+            repository
+        })),
+        { placeHolder: 'Select the repository Marco AI should create the branch in', ignoreFocusOut: true }
+    );
+    if (!picked) {
+        throw new GitOperationError('No repository selected for the new branch');
+    }
+    return picked.repository;
+}
+
+async function branchExists(repoRoot: string, branchName: string): Promise<boolean> {
+    try {
+        await runGit(repoRoot, ['rev-parse', '--verify', '--quiet', `refs/heads/${branchName}`]);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Runs a git command in a repository
+ * Used for operations the Git extension API does not offer (e.g. resetting a branch).
+ * @param repoRoot Root folder of the repository
+ * @param args Arguments of the git command
+ * @returns The command's standard output
+ * @throws GitOperationError if the command fails
+ */
+export function runGit(repoRoot: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile('git', args, { cwd: repoRoot, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+            if (error) {
+                const details = stderr.trim() || error.message;
+                reject(new GitOperationError(`git ${args[0]} failed: ${details}`));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
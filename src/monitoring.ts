@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { ensureChatOpen } from './utils/chatUtils'; // Adjusted import path
-import { isWorkflowPaused, isWorkflowRunning } from './workflows/workflowManager';
+import { logger } from './utils/logger';
+import { isAwaitingApproval, isWorkflowPaused, isWorkflowRunning } from './workflows/workflowManager';
 
 let checkAgentTimer: NodeJS.Timeout | undefined;
 let ensureChatTimer: NodeJS.Timeout | undefined;
@@ -17,14 +18,14 @@ export function setupMonitoringTimers(context: vscode.ExtensionContext) {
 
     // Every 10s (or configured time): Check agent alive when workflow is running
     checkAgentTimer = setInterval(() => {
-        if (isWorkflowRunning() && !isWorkflowPaused()) {
+        if (isWorkflowRunning() && !isWorkflowPaused() && !isAwaitingApproval()) {
             vscode.commands.executeCommand('marco.checkAgentAlive');
         }
     }, checkAgentFrequency);
 
     // Every 5min (or configured time): Ensure chat open when workflow is running
     ensureChatTimer = setInterval(async () => {
-        if (isWorkflowRunning() && !isWorkflowPaused()) {
+        if (isWorkflowRunning() && !isWorkflowPaused() && !isAwaitingApproval()) {
             const config = vscode.workspace.getConfiguration('marco');
             const backgroundMode = config.get<boolean>('backgroundMode') || false;
 
@@ -47,7 +48,7 @@ export function setupMonitoringTimers(context: vscode.ExtensionContext) {
             if (e.affectsConfiguration('marco.checkAgentFrequency') ||
                 e.affectsConfiguration('marco.ensureChatFrequency')) {
 
-                console.log("Monitoring configuration changed, restarting timers.");
+                logger.info("Monitoring configuration changed, restarting timers.");
                 // Re-setup timers with new frequencies
                 setupMonitoringTimers(context); // Recursive call to restart with new config
             }
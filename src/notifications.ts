@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import { StatusManager, WorkflowState } from './statusManager';
+
+/**
+ * How Marco tells the user that the workflow reached a state
+ * - `none`: no notification
+ * - `statusBar`: flash the status bar item
+ * - `toast`: a notification in the corner, with action buttons
+ * - `modal`: a dialog that has to be dismissed, with action buttons
+ */
+export type NotificationStyle = 'none' | 'statusBar' | 'toast' | 'modal';
+
+/**
+ * Notification style per state, used for states `marco.notifications` does not configure
+ */
+const DEFAULT_NOTIFICATIONS: Partial<Record<WorkflowState, NotificationStyle>> = {
+    [WorkflowState.Completed]: 'toast',
+    [WorkflowState.Error]: 'toast',
+    [WorkflowState.Paused]: 'toast'
+};
+
+/**
+ * A button on a notification, running a Marco command
+ */
+interface NotificationAction {
+    title: string;
+    command: string;
+    /** Whether the action applies, checked when the notification is shown */
+    when?: () => boolean;
+}
+
+const STATE_ACTIONS: Partial<Record<WorkflowState, NotificationAction[]>> = {
+    [WorkflowState.Completed]: [
+        {
+            title: 'Open Report',
+            command: 'marco.openRunReport',
+            when: () => vscode.workspace.getConfiguration('marco').get<boolean>('writeReports') ?? true
+        },
+        { title: 'Show Diff', command: 'marco.showRunChanges' },
+        {
+            title: 'Copy PR Description',
+            command: 'marco.copyPullRequestDescription',
+            when: () => vscode.workspace.getConfiguration('marco').get<boolean>('writeReports') ?? true
+        }
+    ],
+    [WorkflowState.Paused]: [
+        { title: 'Resume', command: 'marco.resumeWorkflow' },
+        { title: 'Show Diff', command: 'marco.showRunChanges' }
+    ],
+    [WorkflowState.Error]: [
+        { title: 'Show Logs', command: 'marco.showLogs' },
+        { title: 'Show Diff', command: 'marco.showRunChanges' }
+    ]
+};
+
+/**
+ * Gets the notification style configured for a state
+ * @param state The workflow state
+ */
+export function getNotificationStyle(state: WorkflowState): NotificationStyle {
+    const configured = vscode.workspace.getConfiguration('marco')
+        .get<Partial<Record<WorkflowState, NotificationStyle>>>('notifications') ?? {};
+    return configured[state] ?? DEFAULT_NOTIFICATIONS[state] ?? 'none';
+}
+
+/**
+ * Notifies the user of workflow state changes, following `marco.notifications`
+ * and `marco.notifyOnlyWhenUnfocused`
+ * @param context The extension context
+ */
+export function registerStateNotifications(context: vscode.ExtensionContext): void {
+    let lastState = StatusManager.getInstance().getState();
+    context.subscriptions.push(
+        StatusManager.getInstance().onStateChanged((state, message) => {
+            const changed = state !== lastState;
+            lastState = state;
+            // Transitions without a message are internal bookkeeping, and
+            // updates within the same state only change the message
+            if (changed && message) {
+                notifyStateChange(state, message);
+            }
+        })
+    );
+}
+
+async function notifyStateChange(state: WorkflowState, message: string): Promise<void> {
+    const style = getNotificationStyle(state);
+    const onlyWhenUnfocused = vscode.workspace.getConfiguration('marco').get<boolean>('notifyOnlyWhenUnfocused') ?? false;
+    if (style === 'none' || (onlyWhenUnfocused && vscode.window.state.focused)) {
+        return;
+    }
+
+    if (style === 'statusBar') {
+        StatusManager.getInstance().flash();
+        return;
+    }
+
+    const actions = (STATE_ACTIONS[state] ?? []).filter(action => action.when?.() ?? true);
+    const text = `Marco AI: ${message}`;
+    const options: vscode.MessageOptions = { modal: style === 'modal' };
+    const titles = actions.map(action => action.title);
+
+    let choice: string | undefined;
+    switch (state) {
+        case WorkflowState.Error:
+            choice = await vscode.window.showErrorMessage(text, options, ...titles);
+            break;
+        case WorkflowState.Paused:
+        case WorkflowState.AwaitingApproval:
+            choice = await vscode.window.showWarningMessage(text, options, ...titles);
+            break;
+        default:
+            choice = await vscode.window.showInformationMessage(text, options, ...titles);
+            break;
+    }
+
+    const action = actions.find(a => a.title === choice);
+    if (action) {
+        await vscode.commands.executeCommand(action.command);
+    }
+}
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { formatDuration } from './utils/helpers';
 
 /**
  * Enum representing the different states of the Marco AI workflow
@@ -13,6 +14,7 @@ export enum WorkflowState {
     VerifyingCompletion = 'verifying-completion',
     VerifyingChecklist = 'verifying-checklist',
     ContinuingIteration = 'continuing-iteration',
+    AwaitingApproval = 'awaiting-approval',
     Paused = 'paused',
     Completed = 'completed',
     Error = 'error'
@@ -20,6 +22,35 @@ export enum WorkflowState {
 
 type StateChangeListener = (state: WorkflowState, message?: string) => void;
 
+/** States that end a run */
+const FINAL_STATES: readonly WorkflowState[] = [WorkflowState.Completed, WorkflowState.Error, WorkflowState.Idle];
+
+/** Number of run timelines kept in memory */
+const MAX_TIMELINES = 10;
+
+/**
+ * A phase of a run: the time spent in one state
+ */
+export interface StatePhase {
+    state: WorkflowState;
+    /** Message of the transition into the state */
+    message?: string;
+    enteredAt: number;
+    /** When the run left the state; undefined for the current phase */
+    exitedAt?: number;
+}
+
+/**
+ * The states a run went through, in order
+ */
+export interface RunTimeline {
+    runId: string;
+    startedAt: number;
+    /** When the run reached a final state; undefined while it is going */
+    endedAt?: number;
+    phases: StatePhase[];
+}
+
 /**
  * Manages the status display for the Marco AI workflow
  */
@@ -31,7 +62,11 @@ export class StatusManager {
     private animationFrames = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
     private animationIndex = 0;
     private animationInterval: NodeJS.Timeout | undefined;
+    private flashInterval: NodeJS.Timeout | undefined;
+    private flashHighlighted = false;
     private stateChangeListeners: StateChangeListener[] = [];
+    private timelines: RunTimeline[] = [];
+    private currentTimeline: RunTimeline | undefined;
 
     private constructor() {
         this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 1000);
@@ -58,6 +93,20 @@ export class StatusManager {
         context.subscriptions.push(this.statusBarItem);
     }
 
+    /**
+     * Start recording the timeline of a run; call before moving it to its first state
+     * A run that is resumed with the same identifier continues its timeline.
+     * @param runId Identifier of the run
+     */
+    public beginRun(runId: string): void {
+        this.currentTimeline = this.timelines.find(timeline => timeline.runId === runId);
+        if (!this.currentTimeline) {
+            this.currentTimeline = { runId, startedAt: Date.now(), phases: [] };
+            this.timelines.push(this.currentTimeline);
+            this.timelines = this.timelines.slice(-MAX_TIMELINES);
+        }
+    }
+
     /**
      * Set the current workflow state
      * @param state The new workflow state
@@ -66,21 +115,17 @@ export class StatusManager {
     public setState(state: WorkflowState, message?: string): void {
         this.currentState = state;
         this.lastUpdateTime = new Date();
+        this.recordPhase(state, message);
         this.updateStatusBar(message);
 
         // Start or stop animation based on state
-        if (state === WorkflowState.Idle || state === WorkflowState.Paused ||
+        if (state === WorkflowState.Idle || state === WorkflowState.Paused || state === WorkflowState.AwaitingApproval ||
             state === WorkflowState.Completed || state === WorkflowState.Error) {
             this.stopAnimation();
         } else {
             this.startAnimation();
         }
 
-        // Show notification for state changes
-        if (message) {
-            this.showStateNotification(state, message);
-        }
-
         // Notify listeners of the state change
         this.notifyStateChangeListeners(state, message);
     }
@@ -100,6 +145,55 @@ export class StatusManager {
         return this.lastUpdateTime;
     }
 
+    /**
+     * Get the timeline of a run
+     * @param runId The run, defaults to the current (or last) run
+     * @returns A copy of the timeline, or undefined if the run is unknown
+     */
+    public getTimeline(runId?: string): RunTimeline | undefined {
+        const timeline = runId ? this.timelines.find(t => t.runId === runId) : this.currentTimeline;
+        return timeline && { ...timeline, phases: timeline.phases.map(phase => ({ ...phase })) };
+    }
+
+    /**
+     * Get the time a run spent in each state, the current phase counting up to now
+     * Final states (completed, error, idle) are not included.
+     * @param runId The run, defaults to the current (or last) run
+     * @returns Milliseconds per state, in the order the states were first entered
+     */
+    public getPhaseDurations(runId?: string): Map<WorkflowState, number> {
+        const durations = new Map<WorkflowState, number>();
+        for (const phase of this.getTimeline(runId)?.phases ?? []) {
+            if (!FINAL_STATES.includes(phase.state)) {
+                const duration = (phase.exitedAt ?? Date.now()) - phase.enteredAt;
+                durations.set(phase.state, (durations.get(phase.state) ?? 0) + duration);
+            }
+        }
+        return durations;
+    }
+
+    /**
+     * Get how long a run took, or has been going so far
+     * @param runId The run, defaults to the current (or last) run
+     * @returns Milliseconds, or 0 if the run is unknown
+     */
+    public getTotalRunTime(runId?: string): number {
+        const timeline = this.getTimeline(runId);
+        return timeline ? (timeline.endedAt ?? Date.now()) - timeline.startedAt : 0;
+    }
+
+    /**
+     * Get how long the workflow has been in its current state
+     * Messages reported within the same state do not restart the phase.
+     * @returns Milliseconds
+     */
+    public getCurrentPhaseTime(): number {
+        const phases = this.currentTimeline?.phases;
+        const current = phases?.[phases.length - 1];
+        const enteredAt = current?.state === this.currentState ? current.enteredAt : this.lastUpdateTime.getTime();
+        return Date.now() - enteredAt;
+    }
+
     /**
      * Register a listener for state changes
      * @param listener The callback function to be called when the state changes
@@ -118,6 +212,47 @@ export class StatusManager {
         };
     }
 
+    /**
+     * Draw attention to the status bar item by blinking its background for a few seconds
+     */
+    public flash(): void {
+        if (this.flashInterval) {
+            clearInterval(this.flashInterval);
+        }
+
+        let blinks = 0;
+        this.flashInterval = setInterval(() => {
+            blinks++;
+            this.flashHighlighted = blinks < 8 && blinks % 2 === 1;
+            if (blinks >= 8) {
+                clearInterval(this.flashInterval);
+                this.flashInterval = undefined;
+            }
+            this.setStatusBarColor();
+        }, 400);
+    }
+
+    /**
+     * Add a phase to the current run's timeline when the state changes
+     */
+    private recordPhase(state: WorkflowState, message?: string): void {
+        const timeline = this.currentTimeline;
+        if (!timeline) {
+            return;
+        }
+
+        const now = Date.now();
+        const current = timeline.phases[timeline.phases.length - 1];
+        if (current?.state === state) {
+            return;
+        }
+        if (current) {
+            current.exitedAt = now;
+        }
+        timeline.phases.push({ state, message, enteredAt: now });
+        timeline.endedAt = FINAL_STATES.includes(state) ? now : undefined;
+    }
+
     /**
      * Notify all listeners of a state change
      */
@@ -133,7 +268,7 @@ export class StatusManager {
     private updateStatusBar(message?: string): void {
         const stateEmoji = this.getStateEmoji();
         const stateName = this.formatStateName(this.currentState);
-        const elapsedTime = this.getElapsedTime();
+        const elapsedTime = `(${formatDuration(this.getCurrentPhaseTime())})`;
 
         if (message) {
             this.statusBarItem.text = `${stateEmoji} Marco: ${stateName} - ${message} ${elapsedTime}`;
@@ -141,7 +276,15 @@ export class StatusManager {
             this.statusBarItem.text = `${stateEmoji} Marco: ${stateName} ${elapsedTime}`;
         }
 
-        this.statusBarItem.tooltip = `Marco AI - Current state: ${stateName}\nLast updated: ${this.lastUpdateTime.toLocaleTimeString()}`;
+        const tooltip = [`Marco AI - Current state: ${stateName}`];
+        if (this.currentTimeline) {
+            tooltip.push(
+                `Time in current phase: ${formatDuration(this.getCurrentPhaseTime())}`,
+                `Total run time: ${formatDuration(this.getTotalRunTime())}`
+            );
+        }
+        tooltip.push(`Last updated: ${this.lastUpdateTime.toLocaleTimeString()}`);
+        this.statusBarItem.tooltip = tooltip.join('\n');
         this.setStatusBarColor();
     }
 
@@ -167,6 +310,9 @@ export class StatusManager {
             case WorkflowState.CheckingStatus: return '$(question)';
             case WorkflowState.RequestingTests: return '$(beaker)';
             case WorkflowState.VerifyingCompletion: return '$(checklist)';
+            case WorkflowState.VerifyingChecklist: return '$(tasklist)';
+            case WorkflowState.ContinuingIteration: return '$(debug-continue)';
+            case WorkflowState.AwaitingApproval: return '$(eye)';
             case WorkflowState.Paused: return '$(debug-pause)';
             case WorkflowState.Completed: return '$(check)';
             case WorkflowState.Error: return '$(error)';
@@ -178,6 +324,14 @@ export class StatusManager {
      * Set status bar color based on state
      */
     private setStatusBarColor(): void {
+        // Status bar items only support the error and warning backgrounds, so an error blinks off instead
+        if (this.flashHighlighted) {
+            this.statusBarItem.backgroundColor = this.currentState === WorkflowState.Error
+                ? undefined
+                : new vscode.ThemeColor('statusBarItem.errorBackground');
+            return;
+        }
+
         switch (this.currentState) {
             case WorkflowState.Error:
                 this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
@@ -186,6 +340,7 @@ export class StatusManager {
                 this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
                 break;
             case WorkflowState.Paused:
+            case WorkflowState.AwaitingApproval:
                 this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
                 break;
             default:
@@ -194,22 +349,6 @@ export class StatusManager {
         }
     }
 
-    /**
-     * Calculate elapsed time since last state change
-     */
-    private getElapsedTime(): string {
-        const now = new Date();
-        const elapsed = Math.floor((now.getTime() - this.lastUpdateTime.getTime()) / 1000);
-
-        if (elapsed < 60) {
-            return `(${elapsed}s)`;
-        } else {
-            const minutes = Math.floor(elapsed / 60);
-            const seconds = elapsed % 60;
-            return `(${minutes}m ${seconds}s)`;
-        }
-    }
-
     /**
      * Start animation for active states
      */
@@ -234,31 +373,12 @@ export class StatusManager {
         }
     }
 
-    /**
-     * Show a notification for state changes
-     */
-    private showStateNotification(state: WorkflowState, message: string): void {
-        switch (state) {
-            case WorkflowState.Error:
-                vscode.window.showErrorMessage(`Marco AI: ${message}`);
-                break;
-            case WorkflowState.Completed:
-                vscode.window.showInformationMessage(`Marco AI: ${message}`);
-                break;
-            case WorkflowState.Paused:
-                vscode.window.showWarningMessage(`Marco AI: ${message}`);
-                break;
-            default:
-                // Don't show notifications for normal state transitions
-                break;
-        }
-    }
-
     /**
      * Dispose the status bar item
      */
     public dispose(): void {
         this.stopAnimation();
+        clearInterval(this.flashInterval);
         this.statusBarItem.dispose();
     }
 }
\ No newline at end of file
@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import { Clock } from '../utils/clock';
+
+interface VirtualTimer {
+	id: number;
+	due: number;
+	callback: () => void;
+}
+
+/**
+ * Clock whose time only moves when a timer fires
+ * Pending timers fire one at a time in the order they are due, each on its own turn of
+ * the event loop, so sleeps complete instantly while code awaiting between them still runs.
+ */
+export class VirtualClock implements Clock {
+	private time: number;
+	private timers: VirtualTimer[] = [];
+	private nextId = 0;
+	private advanceScheduled = false;
+
+	constructor(start = Date.UTC(2025, 0, 1)) {
+		this.time = start;
+	}
+
+	public now(): number {
+		return this.time;
+	}
+
+	public schedule(callback: () => void, ms: number): vscode.Disposable {
+		const timer: VirtualTimer = { id: this.nextId++, due: this.time + Math.max(0, ms), callback };
+		this.timers.push(timer);
+		this.scheduleAdvance();
+
+		return {
+			dispose: () => {
+				this.timers = this.timers.filter(t => t !== timer);
+			}
+		};
+	}
+
+	/**
+	 * Number of timers that have not fired yet
+	 */
+	public get pendingTimers(): number {
+		return this.timers.length;
+	}
+
+	private scheduleAdvance(): void {
+		if (this.advanceScheduled) {
+			return;
+		}
+		this.advanceScheduled = true;
+		setImmediate(() => {
+			this.advanceScheduled = false;
+			this.fireNext();
+		});
+	}
+
+	private fireNext(): void {
+		if (this.timers.length === 0) {
+			return;
+		}
+
+		this.timers.sort((a, b) => a.due - b.due || a.id - b.id);
+		const timer = this.timers.shift() as VirtualTimer;
+		this.time = Math.max(this.time, timer.due);
+		timer.callback();
+
+		if (this.timers.length > 0) {
+			this.scheduleAdvance();
+		}
+	}
+}
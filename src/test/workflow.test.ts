@@ -0,0 +1,178 @@
+import * as assert from 'assert';
+import { InvalidStateTransitionError } from '../errors/workflow_errors';
+import { WorkflowState } from '../statusManager';
+import {
+	approveIteration, continueDevelopment, revertIteration, runWorkflow, startWorkflow
+} from '../workflows/workflowManager';
+import { WorkflowRunner } from '../workflows/workflowRunner';
+import { CHECKLIST_INCOMPLETE, CHECKLIST_PROMPT, WorkflowHarness } from './workflowHarness';
+
+const SETUP_PROMPTS = [
+	"I'll be working in Agent mode for this task.",
+	"I'll be using the most capable model available in this priority order: Claude 3.7 Sonnet > Gemini 2.5 > GPT 4.1."
+];
+
+const INIT_PROMPT = '@marco # Marco AI Initial Task';
+const CHECK_AGENT_PROMPT = '@marco # Agent Status Check';
+const CONTINUE_PROMPT = '@marco # Continue Development Iteration';
+
+const ITERATION_PROMPTS = [INIT_PROMPT, CHECK_AGENT_PROMPT, CHECKLIST_PROMPT];
+
+const SETUP_STATES = [WorkflowState.Initializing, WorkflowState.SendingTask, WorkflowState.ContinuingIteration];
+
+const ITERATION_STATES = [
+	WorkflowState.SendingTask,
+	WorkflowState.CheckingStatus,
+	WorkflowState.VerifyingChecklist,
+	WorkflowState.VerifyingCompletion
+];
+
+suite('Workflow Test Suite', () => {
+	let harness: WorkflowHarness;
+
+	setup(async () => {
+		harness = new WorkflowHarness();
+		await harness.setUp();
+	});
+
+	teardown(async () => {
+		await harness.tearDown();
+	});
+
+	test('play runs the pipeline until the checklist is complete', async () => {
+		await runWorkflow(harness.context, 'play');
+		await harness.waitForState(WorkflowState.Completed);
+
+		assert.deepStrictEqual(harness.getPrompts(), [...SETUP_PROMPTS, ...ITERATION_PROMPTS]);
+		assert.deepStrictEqual(harness.getTransitions(), [...SETUP_STATES, ...ITERATION_STATES, WorkflowState.Completed]);
+		assert.strictEqual(harness.backend.opened, true);
+		assert.strictEqual(harness.backend.mode, 'Agent');
+		assert.strictEqual(harness.backend.model, 'Claude 3.7 Sonnet');
+	});
+
+	test('play iterates while the checklist is incomplete', async () => {
+		harness.queueChecklistReplies(CHECKLIST_INCOMPLETE);
+
+		await runWorkflow(harness.context, 'play');
+		await harness.waitForState(WorkflowState.Completed);
+
+		assert.deepStrictEqual(harness.getPrompts(), [
+			...SETUP_PROMPTS, ...ITERATION_PROMPTS, CONTINUE_PROMPT, ...ITERATION_PROMPTS
+		]);
+		assert.deepStrictEqual(harness.getTransitions(), [
+			...SETUP_STATES, ...ITERATION_STATES,
+			WorkflowState.ContinuingIteration, ...ITERATION_STATES,
+			WorkflowState.Completed
+		]);
+		assert.strictEqual(WorkflowRunner.getInstance().getIteration(), 1);
+		assert.ok(harness.getMessages().includes('Starting iteration #2'));
+	});
+
+	test('a reply that arrives while the prompt is being sent completes the wait', async () => {
+		await harness.tearDown();
+		harness = new WorkflowHarness({ sendDelayMs: 1000, replyDelayMs: 0 });
+		await harness.setUp();
+
+		await runWorkflow(harness.context, 'play');
+		await harness.waitForState(WorkflowState.Completed);
+
+		assert.deepStrictEqual(harness.getPrompts(), [...SETUP_PROMPTS, ...ITERATION_PROMPTS]);
+		assert.deepStrictEqual(harness.getTransitions(), [...SETUP_STATES, ...ITERATION_STATES, WorkflowState.Completed]);
+	});
+
+	test('pause holds the run and resume picks it up where it stopped', async () => {
+		harness.onPrompt(CHECK_AGENT_PROMPT, () => {
+			void runWorkflow(harness.context, 'pause');
+			return 'Still working.';
+		});
+
+		await runWorkflow(harness.context, 'play');
+		await harness.waitForState(WorkflowState.Paused);
+		await harness.settle();
+
+		assert.deepStrictEqual(harness.getPrompts(), [...SETUP_PROMPTS, INIT_PROMPT, CHECK_AGENT_PROMPT]);
+		assert.deepStrictEqual(harness.getTransitions(), [
+			...SETUP_STATES, WorkflowState.SendingTask, WorkflowState.CheckingStatus, WorkflowState.Paused
+		]);
+
+		await runWorkflow(harness.context, 'pause');
+		await harness.waitForState(WorkflowState.Completed);
+
+		assert.deepStrictEqual(harness.getPrompts(), [...SETUP_PROMPTS, ...ITERATION_PROMPTS]);
+		assert.deepStrictEqual(harness.getTransitions(), [
+			...SETUP_STATES, WorkflowState.SendingTask, WorkflowState.CheckingStatus, WorkflowState.Paused,
+			WorkflowState.CheckingStatus, WorkflowState.VerifyingChecklist, WorkflowState.VerifyingCompletion,
+			WorkflowState.Completed
+		]);
+	});
+
+	test('review decisions are refused while a run awaiting approval is paused', async () => {
+		startWorkflow(harness.context, { settingsOverrides: { reviewGate: true } });
+		await harness.waitForState(WorkflowState.AwaitingApproval);
+		await runWorkflow(harness.context, 'pause');
+		await harness.waitForState(WorkflowState.Paused);
+
+		await assert.rejects(revertIteration(), InvalidStateTransitionError);
+		assert.strictEqual(WorkflowRunner.getInstance().isAwaitingApproval(), true);
+
+		await runWorkflow(harness.context, 'pause');
+		await harness.waitForState(WorkflowState.AwaitingApproval);
+		approveIteration();
+		await harness.waitForState(WorkflowState.Completed);
+	});
+
+		test('stop cancels the step waiting for the agent', async () => {
+		let stopped: Promise<void> | undefined;
+		harness.onPrompt(CHECK_AGENT_PROMPT, () => {
+			stopped = runWorkflow(harness.context, 'stop');
+			return undefined;
+		});
+
+		await runWorkflow(harness.context, 'play');
+		await harness.waitForState(WorkflowState.Idle);
+		await stopped;
+		await harness.settle();
+
+		assert.deepStrictEqual(harness.getPrompts(), [...SETUP_PROMPTS, INIT_PROMPT, CHECK_AGENT_PROMPT]);
+		assert.deepStrictEqual(harness.getTransitions(), [
+			...SETUP_STATES, WorkflowState.SendingTask, WorkflowState.CheckingStatus, WorkflowState.Idle
+		]);
+		assert.strictEqual(WorkflowRunner.getInstance().isRunning(), false);
+	});
+
+	test('restart stops the run and starts over from the first step', async () => {
+		let restarted: Promise<void> | undefined;
+		harness.onPrompt(CHECK_AGENT_PROMPT, () => {
+			restarted = runWorkflow(harness.context, 'restart');
+			return undefined;
+		});
+
+		await runWorkflow(harness.context, 'play');
+		await harness.waitForState(WorkflowState.Idle);
+		await restarted;
+		await harness.waitForState(WorkflowState.Completed);
+
+		assert.deepStrictEqual(harness.getPrompts(), [
+			...SETUP_PROMPTS, INIT_PROMPT, CHECK_AGENT_PROMPT,
+			...SETUP_PROMPTS, ...ITERATION_PROMPTS
+		]);
+		assert.deepStrictEqual(harness.getTransitions(), [
+			...SETUP_STATES, WorkflowState.SendingTask, WorkflowState.CheckingStatus, WorkflowState.Idle,
+			...SETUP_STATES, ...ITERATION_STATES, WorkflowState.Completed
+		]);
+	});
+
+	test('continue runs another iteration of a completed run', async () => {
+		await runWorkflow(harness.context, 'play');
+		await harness.waitForState(WorkflowState.Completed);
+		const promptsBefore = harness.getPrompts().length;
+		const transitionsBefore = harness.getTransitions().length;
+
+		await continueDevelopment(harness.context);
+		await harness.waitForState(WorkflowState.Completed);
+
+		assert.deepStrictEqual(harness.getPrompts().slice(promptsBefore), [CONTINUE_PROMPT, ...ITERATION_PROMPTS]);
+		assert.deepStrictEqual(harness.getTransitions().slice(transitionsBefore), [...ITERATION_STATES, WorkflowState.Completed]);
+		assert.strictEqual(WorkflowRunner.getInstance().getIteration(), 1);
+	});
+});
@@ -0,0 +1,194 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CopilotChatBackend } from '../chat/copilotChatBackend';
+import { MockChatBackend, MockChatBackendOptions } from '../chat/mockChatBackend';
+import { StatusManager, WorkflowState } from '../statusManager';
+import { setClock } from '../utils/clock';
+import { stopWorkflow } from '../workflows/workflowManager';
+import { WorkflowRunner } from '../workflows/workflowRunner';
+import { VirtualClock } from './virtualClock';
+
+/** Heading of the bundled `check_checklist` prompt */
+export const CHECKLIST_PROMPT = '@marco # Checklist Verification';
+
+/** Reply to the checklist prompt that ends the development loop */
+export const CHECKLIST_COMPLETE = '1. Code implementation is complete and functional ✅';
+
+/** Reply to the checklist prompt that asks for another iteration */
+export const CHECKLIST_INCOMPLETE = '1. Code implementation is complete and functional ❌';
+
+/** Reply to every other prompt */
+export const AGENT_REPLY = 'Done.';
+
+/** How long to wait for the workflow in real time before failing a test (ms) */
+const REAL_TIMEOUT = 10000;
+
+/**
+ * Runs the real workflow against a MockChatBackend and a VirtualClock
+ *
+ * The mock agent answers prompts sent through @marco, as the participant would capture them:
+ * the checklist prompt with the next queued checklist reply (complete by default), the others
+ * with AGENT_REPLY. Prompts are identified by their first line, i.e. the mention and the
+ * heading of the bundled prompt file.
+ */
+export class WorkflowHarness {
+	public readonly clock = new VirtualClock();
+	public readonly backend: MockChatBackend;
+	public readonly context = createTestContext();
+	private states: WorkflowState[] = [];
+	private messages: string[] = [];
+	/** Number of recorded states waitForState has looked past */
+	private consumedStates = 0;
+	private checklistReplies: string[] = [];
+	private promptActions = new Map<string, () => string | undefined>();
+	private subscription: vscode.Disposable | undefined;
+
+	/**
+	 * @param backendOptions Timing of the mock agent
+	 */
+	constructor(backendOptions: Omit<MockChatBackendOptions, 'defaultReply'> = {}) {
+		this.backend = new MockChatBackend({ ...backendOptions, defaultReply: message => this.reply(message) });
+	}
+
+	/**
+	 * Installs the clock and backend; call from setup
+	 * @param task The task the runs work on
+	 */
+	public async setUp(task = 'Add a health check endpoint'): Promise<void> {
+		setClock(this.clock);
+		WorkflowRunner.getInstance().setChatBackend(this.backend);
+		await this.context.workspaceState.update('marco.userInput', task);
+		this.subscription = StatusManager.getInstance().onStateChanged((state, message) => {
+			this.states.push(state);
+			if (message) {
+				this.messages.push(message);
+			}
+		});
+	}
+
+	/**
+	 * Stops the run and restores the real clock and backend; call from teardown
+	 */
+	public async tearDown(): Promise<void> {
+		await stopWorkflow();
+		this.subscription?.dispose();
+		WorkflowRunner.getInstance().setChatBackend(new CopilotChatBackend());
+		setClock(undefined);
+	}
+
+	/**
+	 * Queues the replies to the next checklist prompts
+	 */
+	public queueChecklistReplies(...replies: string[]): void {
+		this.checklistReplies.push(...replies);
+	}
+
+	/**
+	 * Runs an action when a prompt is sent, instead of the scripted reply
+	 * The action runs once, while the prompt is being sent, and returns the agent's reply
+	 * (undefined for none).
+	 * @param prompt First line of the prompt
+	 */
+	public onPrompt(prompt: string, action: () => string | undefined): void {
+		this.promptActions.set(prompt, action);
+	}
+
+	/**
+	 * Gets the first line of every message sent so far, in order
+	 */
+	public getPrompts(): string[] {
+		return this.backend.sentMessages.map(message => message.split('\n')[0]);
+	}
+
+	/**
+	 * Gets the states the workflow went through so far, without repeats of the same state
+	 */
+	public getTransitions(): WorkflowState[] {
+		return this.states.filter((state, index) => state !== this.states[index - 1]);
+	}
+
+	/**
+	 * Gets the status messages the workflow reported so far, in order
+	 */
+	public getMessages(): string[] {
+		return [...this.messages];
+	}
+
+	/**
+	 * Waits until the workflow changes to a state
+	 * Each call only considers the state changes after the one the previous call found.
+	 * @throws Error if it does not within REAL_TIMEOUT
+	 */
+	public async waitForState(state: WorkflowState): Promise<void> {
+		await waitUntil(() => {
+			const index = this.states.indexOf(state, this.consumedStates);
+			if (index === -1) {
+				return false;
+			}
+			this.consumedStates = index + 1;
+			return true;
+		}, `state ${state}`);
+	}
+
+	/**
+	 * Waits until no timers are pending and the workflow has had time to act on the last one
+	 */
+	public async settle(): Promise<void> {
+		let quietTurns = 0;
+		await waitUntil(() => {
+			quietTurns = this.clock.pendingTimers === 0 ? quietTurns + 1 : 0;
+			return quietTurns >= 10;
+		}, 'the workflow to settle');
+	}
+
+	private reply(message: string): string | undefined {
+		const prompt = message.split('\n')[0];
+		const action = this.promptActions.get(prompt);
+		if (action) {
+			this.promptActions.delete(prompt);
+			return action();
+		}
+		if (!prompt.startsWith('@marco ')) {
+			return undefined;
+		}
+		if (prompt === CHECKLIST_PROMPT) {
+			return this.checklistReplies.shift() ?? CHECKLIST_COMPLETE;
+		}
+		return AGENT_REPLY;
+	}
+}
+
+/**
+ * Creates the parts of an extension context the workflow uses, with in-memory workspace state
+ */
+function createTestContext(): vscode.ExtensionContext {
+	const values = new Map<string, unknown>();
+	const workspaceState = {
+		keys: () => [...values.keys()],
+		get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) : defaultValue) as T,
+		update: async (key: string, value: unknown) => {
+			if (value === undefined) {
+				values.delete(key);
+			} else {
+				values.set(key, value);
+			}
+		}
+	};
+
+	return {
+		subscriptions: [],
+		// Compiled tests live in out/test; the bundled prompts are read from src/prompts
+		extensionUri: vscode.Uri.file(path.resolve(__dirname, '..', '..')),
+		workspaceState
+	} as unknown as vscode.ExtensionContext;
+}
+
+async function waitUntil(condition: () => boolean, description: string): Promise<void> {
+	const deadline = Date.now() + REAL_TIMEOUT;
+	while (!condition()) {
+		if (Date.now() >= deadline) {
+			throw new Error(`Timed out waiting for ${description}`);
+		}
+		await new Promise(resolve => setTimeout(resolve, 10));
+	}
+}
@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { formatDuration } from '../utils/helpers';
+import { getRunDuration, RunHistory, RunRecord, RunStatus } from '../workflows/runHistory';
+
+/** Length at which message labels are cut off */
+const MAX_LABEL_LENGTH = 80;
+
+/**
+ * A node of the Runs view: a run, or a state transition or message of a run
+ */
+export type RunTreeNode =
+    | { kind: 'run'; run: RunRecord }
+    | { kind: 'transition'; run: RunRecord; index: number }
+    | { kind: 'message'; run: RunRecord; index: number };
+
+const statusIcons: Record<RunStatus, vscode.ThemeIcon> = {
+    running: new vscode.ThemeIcon('sync~spin'),
+    completed: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+    failed: new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed')),
+    stopped: new vscode.ThemeIcon('debug-stop'),
+    interrupted: new vscode.ThemeIcon('debug-disconnect')
+};
+
+/**
+ * Provides the Runs tree view: past runs, each expanding into its timeline
+ * of state transitions and messages sent, in order
+ */
+export class RunHistoryProvider implements vscode.TreeDataProvider<RunTreeNode> {
+    private readonly changeEmitter = new vscode.EventEmitter<RunTreeNode | undefined>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(context: vscode.ExtensionContext) {
+        context.subscriptions.push(
+            this.changeEmitter,
+            RunHistory.getInstance().onHistoryChanged(() => this.changeEmitter.fire(undefined))
+        );
+    }
+
+    public getChildren(element?: RunTreeNode): RunTreeNode[] {
+        if (!element) {
+            return RunHistory.getInstance().getRuns().map(run => ({ kind: 'run', run }));
+        }
+        if (element.kind !== 'run') {
+            return [];
+        }
+
+        // Merge the transitions and the messages into one timeline
+        const { run } = element;
+        const nodes: (RunTreeNode & { timestamp: number })[] = [
+            ...run.transitions.map((t, index) => ({ kind: 'transition' as const, run, index, timestamp: t.timestamp })),
+            ...run.messages.map((m, index) => ({ kind: 'message' as const, run, index, timestamp: m.timestamp }))
+        ];
+        return nodes.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    public getTreeItem(element: RunTreeNode): vscode.TreeItem {
+        switch (element.kind) {
+            case 'run':
+                return this.createRunItem(element.run);
+            case 'transition': {
+                const transition = element.run.transitions[element.index];
+                const item = new vscode.TreeItem(transition.state, vscode.TreeItemCollapsibleState.None);
+                item.description = `${new Date(transition.timestamp).toLocaleTimeString()}${transition.message ? ` · ${transition.message}` : ''}`;
+                item.iconPath = new vscode.ThemeIcon('debug-step-over');
+                return item;
+            }
+            case 'message': {
+                const message = element.run.messages[element.index];
+                const firstLine = message.text.trim().split(/\r?\n/)[0];
+                const label = firstLine.length > MAX_LABEL_LENGTH ? `${firstLine.slice(0, MAX_LABEL_LENGTH - 1)}…` : firstLine;
+                const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+                item.description = new Date(message.timestamp).toLocaleTimeString();
+                item.tooltip = new vscode.MarkdownString().appendCodeblock(message.text, 'markdown');
+                item.iconPath = new vscode.ThemeIcon('comment');
+                return item;
+            }
+        }
+    }
+
+    private createRunItem(run: RunRecord): vscode.TreeItem {
+        const item = new vscode.TreeItem(run.taskDescription.split(/\r?\n/)[0] || run.runId, vscode.TreeItemCollapsibleState.Collapsed);
+        const started = new Date(run.startedAt).toLocaleString();
+        const iterations = `${run.iterations} iteration${run.iterations === 1 ? '' : 's'}`;
+        item.id = run.runId;
+        item.description = `${run.status} · ${started} · ${formatDuration(getRunDuration(run))} · ${iterations}`;
+        item.tooltip = new vscode.MarkdownString(
+            `**${run.status}**${run.branchName ? ` on \`${run.branchName}\`` : ''}\n\n` +
+            `Started ${started}, ran ${formatDuration(getRunDuration(run))}, ${iterations}\n\n` +
+            `${run.messages.length} messages sent\n\n---\n\n`
+        ).appendText(run.taskDescription);
+        item.iconPath = statusIcons[run.status];
+        item.contextValue = run.status === 'running' ? 'marcoRun.running' : 'marcoRun';
+        return item;
+    }
+}
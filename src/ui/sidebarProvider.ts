@@ -1,7 +1,10 @@
 import * as vscode from 'vscode';
+import { TranscriptStore } from '../chat/transcript';
+import { GitCheckpointStore } from '../git/checkpoints';
 import { StatusManager, WorkflowState } from '../statusManager';
 import { getNonce } from '../utils/helpers';
-import { isWorkflowRunning, pauseWorkflow, resumeWorkflow, runWorkflow, stopWorkflow } from '../workflows/workflowManager';
+import { TaskQueue } from '../workflows/taskQueue';
+import { isWorkflowRunning, runWorkflow, stopWorkflow } from '../workflows/workflowManager';
 
 /**
  * SidebarProvider for Marco AI webview panel
@@ -29,6 +32,15 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
 
     webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
 
+    // Listeners of this view, disposed with it so a view resolved again does not add a second set
+    const disposables: vscode.Disposable[] = [];
+    webviewView.onDidDispose(() => {
+      disposables.forEach(disposable => disposable.dispose());
+      if (this._view === webviewView) {
+        this._view = undefined;
+      }
+    }, null, disposables);
+
     // Handle messages from the webview
     webviewView.webview.onDidReceiveMessage(async (data) => {
       switch (data.type) {
@@ -43,11 +55,8 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
           break;
         }
         case 'pauseWorkflow': {
-          if (isWorkflowRunning()) {
-            pauseWorkflow();
-          } else {
-            resumeWorkflow(this._context);
-          }
+          // Toggles between pause and resume
+          await runWorkflow(this._context, 'pause');
           break;
         }
         case 'restartWorkflow': {
@@ -65,6 +74,48 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
           this._context.workspaceState.update('marco.userInput', data.value);
           break;
         }
+        case 'queueAdd': {
+          const maxIterations = Number(data.maxIterations);
+          await TaskQueue.getInstance().add(data.value, maxIterations > 0 ? maxIterations : undefined);
+          break;
+        }
+        case 'queueRemove': {
+          await TaskQueue.getInstance().remove(data.id);
+          break;
+        }
+        case 'queueMove': {
+          await TaskQueue.getInstance().move(data.id, data.direction);
+          break;
+        }
+        case 'queueSkip': {
+          await TaskQueue.getInstance().skip(data.id);
+          break;
+        }
+        case 'queueToggle': {
+          const queue = TaskQueue.getInstance();
+          if (queue.isProcessing()) {
+            queue.stopProcessing();
+          } else {
+            try {
+              await queue.start();
+            } catch (error) {
+              vscode.window.showWarningMessage(`Marco AI: ${error instanceof Error ? error.message : error}`);
+            }
+          }
+          break;
+        }
+        case 'checkpointDiff': {
+          try {
+            await GitCheckpointStore.getInstance().diffAgainstPrevious(data.id);
+          } catch (error) {
+            vscode.window.showErrorMessage(`Marco AI: ${error instanceof Error ? error.message : error}`);
+          }
+          break;
+        }
+        case 'checkpointRollback': {
+          await this._rollbackToCheckpoint(data.id);
+          break;
+        }
         case 'getConfigValues': {
           // Send current config values to the webview
           const config = vscode.workspace.getConfiguration('marco');
@@ -75,14 +126,16 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             agentMode: config.get('agentMode') || 'Agent',
             workflowRunning: isWorkflowRunning()
           });
+          this._postQueue();
+          this._postCheckpoints();
           break;
         }
       }
-    });
+    }, null, disposables);
 
     // Update the sidebar with current status when workflow state changes
     const statusManager = StatusManager.getInstance();
-    statusManager.onStateChanged((state) => {
+    disposables.push(statusManager.onStateChanged((state) => {
       if (this._view) {
         this._view.webview.postMessage({
           type: 'stateUpdate',
@@ -91,7 +144,82 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
           isPaused: state === WorkflowState.Paused
         });
       }
-    });
+    }));
+
+    // Keep the queue list in sync
+    disposables.push(TaskQueue.getInstance().onQueueChanged(() => this._postQueue()));
+
+    // Keep the checkpoint list in sync
+    disposables.push(GitCheckpointStore.getInstance().onCheckpointsChanged(() => this._postCheckpoints()));
+
+    // Show the latest captured agent response
+    disposables.push(TranscriptStore.getInstance().onDidRecordTurn((turn) => {
+      if (this._view && turn.role === 'agent') {
+        this._view.webview.postMessage({
+          type: 'agentResponse',
+          text: turn.text,
+          timestamp: turn.timestamp
+        });
+      }
+    }));
+  }
+
+  /**
+   * Send the task queue to the webview
+   */
+  private _postQueue() {
+    if (this._view) {
+      const queue = TaskQueue.getInstance();
+      this._view.webview.postMessage({
+        type: 'queueUpdate',
+        tasks: queue.getTasks(),
+        processing: queue.isProcessing()
+      });
+    }
+  }
+
+  /**
+   * Send the git checkpoints of the latest run to the webview
+   */
+  private _postCheckpoints() {
+    if (this._view) {
+      this._view.webview.postMessage({
+        type: 'checkpointsUpdate',
+        checkpoints: GitCheckpointStore.getInstance().getCheckpoints()
+      });
+    }
+  }
+
+  /**
+   * Reset the run's branch to a checkpoint after confirmation
+   */
+  private async _rollbackToCheckpoint(id: string) {
+    if (isWorkflowRunning()) {
+      vscode.window.showWarningMessage('Marco AI: Stop the workflow before rolling back.');
+      return;
+    }
+
+    const checkpoint = GitCheckpointStore.getInstance().getCheckpoints().find(c => c.id === id);
+    if (!checkpoint) {
+      return;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `Roll back to "${checkpoint.message}" (${checkpoint.commit.slice(0, 7)})? ` +
+      'All later commits are discarded; uncommitted changes are saved to the Git stash list.',
+      { modal: true },
+      'Roll Back'
+    );
+    if (choice !== 'Roll Back') {
+      return;
+    }
+
+    try {
+      await GitCheckpointStore.getInstance().rollbackTo(id);
+      vscode.window.showInformationMessage(`Marco AI: Rolled back to ${checkpoint.message}.`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Marco AI: ${error instanceof Error ? error.message : error}`);
+    }
   }
 
   /**
@@ -190,12 +318,44 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
           <div class="form-group">
             <textarea id="taskDescription" rows="5" placeholder="Describe the task for Marco AI..."></textarea>
           </div>
-          <button id="saveTaskBtn" class="primary-button">
-            <span class="codicon codicon-save"></span>
-            <span>Save Task</span>
+          <div class="buttons">
+            <button id="saveTaskBtn" class="primary-button">
+              <span class="codicon codicon-save"></span>
+              <span>Save Task</span>
+            </button>
+            <button id="queueTaskBtn">
+              <span class="codicon codicon-add"></span>
+              <span>Add to Queue</span>
+            </button>
+          </div>
+        </section>
+
+        <section class="task-queue">
+          <h2>Task Queue</h2>
+          <div class="form-group">
+            <label for="queueIterations">Iteration budget for queued tasks:</label>
+            <input type="number" id="queueIterations" min="1" placeholder="Default" />
+          </div>
+          <ul id="queueList" class="queue-list"></ul>
+          <div id="queueEmpty" class="queue-empty">No queued tasks</div>
+          <button id="queueToggleBtn" class="primary-button">
+            <span class="codicon codicon-run-all"></span>
+            <span>Run Queue</span>
           </button>
         </section>
 
+        <section class="checkpoints">
+          <h2>Checkpoints</h2>
+          <ul id="checkpointList" class="queue-list"></ul>
+          <div id="checkpointsEmpty" class="queue-empty">No checkpoints recorded for the last run</div>
+        </section>
+
+        <section class="agent-response">
+          <h2>Last Agent Response</h2>
+          <div id="agentResponseTime" class="response-time">No response captured yet</div>
+          <pre id="agentResponse" class="response-text"></pre>
+        </section>
+
         <section class="workflow-state">
           <h2>Workflow Progress</h2>
           <div class="progress-container">
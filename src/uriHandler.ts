@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { logger } from './utils/logger';
+import { isWorkflowRunning, startWorkflow } from './workflows/workflowManager';
+
+const AGENT_MODES = ['Agent', 'Edit', 'Ask'];
+
+/**
+ * Starts runs from links such as
+ * `vscode://<publisher>.marco-ai/run?task=Fix%20the%20login&mode=Agent&tests=true`
+ * Every link asks for confirmation first, since anyone can write one.
+ */
+export class MarcoUriHandler implements vscode.UriHandler {
+    constructor(private readonly context: vscode.ExtensionContext) { }
+
+    public async handleUri(uri: vscode.Uri): Promise<void> {
+        logger.info(`Handling link ${uri.toString(true)}`);
+        if (uri.path !== '/run') {
+            vscode.window.showErrorMessage(`Marco AI: Unknown link '${uri.path}'. Links look like vscode://…/run?task=…`);
+            return;
+        }
+
+        let request: { task: string; settingsOverrides: Record<string, unknown> };
+        try {
+            request = parseRunQuery(new URLSearchParams(uri.query));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Marco AI: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+
+        if (isWorkflowRunning()) {
+            vscode.window.showWarningMessage('Marco AI: A workflow is already running. Stop it before starting a run from a link.');
+            return;
+        }
+
+        const overrides = Object.entries(request.settingsOverrides).map(([key, value]) => `${key}: ${value}`);
+        const choice = await vscode.window.showInformationMessage(
+            'Start a Marco AI run from a link?',
+            {
+                modal: true,
+                detail: `Task: ${request.task}${overrides.length ? `\n\nSettings: ${overrides.join(', ')}` : ''}`
+            },
+            'Start Run'
+        );
+        if (choice !== 'Start Run') {
+            return;
+        }
+
+        startWorkflow(this.context, { taskDescription: request.task, settingsOverrides: request.settingsOverrides });
+    }
+}
+
+/**
+ * Reads the task and setting overrides of a `/run` link
+ * Supported parameters: `task` (required), `mode` (Agent, Edit or Ask), `tests` and `branch` (true or false)
+ * and `maxIterations`.
+ * @param query The query of the link
+ * @throws Error if a parameter is missing or invalid
+ */
+export function parseRunQuery(query: URLSearchParams): { task: string; settingsOverrides: Record<string, unknown> } {
+    const task = query.get('task')?.trim();
+    if (!task) {
+        throw new Error("The link has no 'task' parameter.");
+    }
+
+    const settingsOverrides: Record<string, unknown> = {};
+    const mode = query.get('mode');
+    if (mode !== null) {
+        const agentMode = AGENT_MODES.find(m => m.toLowerCase() === mode.toLowerCase());
+        if (!agentMode) {
+            throw new Error(`Invalid mode '${mode}' in the link; use Agent, Edit or Ask.`);
+        }
+        settingsOverrides.agentMode = agentMode;
+    }
+
+    const tests = parseBoolean(query, 'tests');
+    if (tests !== undefined) {
+        settingsOverrides.needToWriteTest = tests;
+    }
+    const branch = parseBoolean(query, 'branch');
+    if (branch !== undefined) {
+        settingsOverrides.initCreateBranch = branch;
+    }
+
+    const maxIterations = query.get('maxIterations');
+    if (maxIterations !== null) {
+        const value = Number(maxIterations);
+        if (!Number.isInteger(value) || value < 1) {
+            throw new Error(`Invalid maxIterations '${maxIterations}' in the link; use a positive whole number.`);
+        }
+        settingsOverrides.maxIterations = value;
+    }
+
+    return { task, settingsOverrides };
+}
+
+function parseBoolean(query: URLSearchParams, name: string): boolean | undefined {
+    const value = query.get(name);
+    if (value === null) {
+        return undefined;
+    }
+    if (value !== 'true' && value !== 'false') {
+        throw new Error(`Invalid ${name} '${value}' in the link; use true or false.`);
+    }
+    return value === 'true';
+}
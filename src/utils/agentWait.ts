@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import { ChatBackend, ChatResponse } from '../chat/chatBackend';
+import { WorkflowTimeoutError } from '../errors/workflow_errors';
+import { now } from './clock';
+import { sleep } from './helpers';
+
+/**
+ * Options for waitForAgentCompletion
+ */
+export interface AgentWaitOptions {
+    /**
+     * Whether the backend is expected to report a response
+     * When true, only a reported response completes the wait; otherwise the
+     * workspace must be quiet and the agent must not be generating.
+     */
+    expectResponse?: boolean;
+    /**
+     * When the prompt was sent (ms since epoch); responses from then on complete the wait,
+     * including ones that arrived before the wait started. Defaults to the start of the wait.
+     */
+    sentAt?: number;
+    /** Gets the last response the caller received, which may predate the wait's own listener */
+    getLastResponse?: () => ChatResponse | undefined;
+    /** How long the workspace must be free of file changes (ms) */
+    quietPeriodMs?: number;
+    /** How often the signals are checked (ms) */
+    pollIntervalMs?: number;
+    /** Cancellation token of the run; aborts the wait when cancelled */
+    token?: vscode.CancellationToken;
+    /** Called on every poll; may throw to abort or block while the workflow is paused */
+    checkContinue?: () => Promise<void>;
+}
+
+/**
+ * Waits until the agent has finished working on the last prompt
+ * Combines three signals: a response reported by the chat backend, a quiet
+ * period without workspace file changes, and the backend's busy probe.
+ * Time spent blocked in checkContinue (e.g. while paused) does not count against the timeout.
+ * @param backend The chat the prompt was sent to
+ * @param timeoutMs Maximum time to wait (defaults to the `marco.agentTimeout` setting)
+ * @param options Additional wait options
+ * @throws WorkflowTimeoutError if the agent is still busy when the deadline is hit
+ * @throws WorkflowCancelledError if the token is cancelled
+ */
+export async function waitForAgentCompletion(
+    backend: ChatBackend,
+    timeoutMs?: number,
+    options: AgentWaitOptions = {}
+): Promise<void> {
+    const config = vscode.workspace.getConfiguration('marco');
+    const timeout = timeoutMs ?? config.get<number>('agentTimeout') ?? 600000;
+    const quietPeriodMs = options.quietPeriodMs ?? config.get<number>('quietPeriod') ?? 15000;
+    const pollIntervalMs = options.pollIntervalMs ?? 1000;
+
+    const startTime = now();
+    const sentAt = options.sentAt ?? startTime;
+    let deadline = startTime + timeout;
+    let lastActivity = startTime;
+    let responseCaptured = (options.getLastResponse?.()?.timestamp ?? -1) >= sentAt;
+
+    const markActivity = () => { lastActivity = now(); };
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+    const disposables: vscode.Disposable[] = [
+        watcher,
+        watcher.onDidChange(markActivity),
+        watcher.onDidCreate(markActivity),
+        watcher.onDidDelete(markActivity),
+        vscode.workspace.onDidChangeTextDocument(e => {
+            if (e.contentChanges.length > 0) {
+                markActivity();
+            }
+        }),
+        backend.onResponse(response => {
+            if (response.timestamp >= sentAt) {
+                responseCaptured = true;
+            }
+        })
+    ];
+
+    try {
+        while (true) {
+            await sleep(pollIntervalMs, options.token);
+
+            if (options.checkContinue) {
+                const blockedSince = now();
+                await options.checkContinue();
+                deadline += now() - blockedSince;
+            }
+
+            if (responseCaptured) {
+                return;
+            }
+
+            if (!options.expectResponse) {
+                const quiet = now() - lastActivity >= quietPeriodMs;
+                if (quiet && !await backend.isBusy()) {
+                    return;
+                }
+            }
+
+            if (now() >= deadline) {
+                throw new WorkflowTimeoutError(`Agent did not finish within ${Math.round(timeout / 1000)}s`);
+            }
+        }
+    } finally {
+        disposables.forEach(d => d.dispose());
+    }
+}
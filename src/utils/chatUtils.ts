@@ -1,4 +1,6 @@
 import * as vscode from 'vscode';
+import { TranscriptStore } from '../chat/transcript';
+import { logger } from './logger';
 
 // Added for idle check
 let lastMessageTime: number | null = null;
@@ -12,7 +14,7 @@ const IDLE_THRESHOLD = 60000; // 30 seconds in milliseconds
  * @returns Promise resolving to true if chat was opened successfully, false otherwise
  */
 export async function ensureChatOpen(retries = 5, delayMs = 1000, focusChat = false): Promise<boolean> {
-    console.log('Attempting to ensure chat is open...');
+    logger.debug('Attempting to ensure chat is open...');
 
     // First check if chat is already open
     try {
@@ -20,7 +22,7 @@ export async function ensureChatOpen(retries = 5, delayMs = 1000, focusChat = fa
         const chatOpen = views.some(g => g.tabs.some(t => t.label.includes('Copilot Chat')));
 
         if (chatOpen) {
-            console.log('Chat is already open');
+            logger.debug('Chat is already open');
 
             // Focus on chat if requested
             if (focusChat) {
@@ -30,17 +32,17 @@ export async function ensureChatOpen(retries = 5, delayMs = 1000, focusChat = fa
             return true;
         }
     } catch (err) {
-        console.log('Error checking if chat is open:', err);
+        logger.debug('Error checking if chat is open:', err);
     }
 
     // If not open, try to open it
     for (let attempt = 1; attempt <= retries; attempt++) {
-        console.log(`Chat open attempt ${attempt}/${retries}`);
+        logger.debug(`Chat open attempt ${attempt}/${retries}`);
 
         try {
             // Try standard command - this seems more reliable
             await vscode.commands.executeCommand('workbench.action.chat.open', { query: '' });
-            console.log('Successfully opened chat using workbench.action.chat.open');
+            logger.debug('Successfully opened chat using workbench.action.chat.open');
 
             if (focusChat) {
                 await focusChatTab(); // Still attempt to focus
@@ -48,7 +50,7 @@ export async function ensureChatOpen(retries = 5, delayMs = 1000, focusChat = fa
 
             return true;
         } catch (error) {
-            console.log(`Attempt ${attempt} failed with standard command:`, error);
+            logger.debug(`Attempt ${attempt} failed with standard command:`, error);
 
             // Wait before trying next approach (if any were added back)
             await new Promise(resolve => setTimeout(resolve, delayMs));
@@ -75,11 +77,11 @@ async function focusChatTab(): Promise<boolean> {
         // Use the command designed to show/focus the chat view
         // Try the standard open command again, hoping it brings focus
         await vscode.commands.executeCommand('workbench.action.chat.open');
-        console.log('Attempted to focus Copilot Chat view via workbench.action.chat.open');
+        logger.debug('Attempted to focus Copilot Chat view via workbench.action.chat.open');
         // It's hard to guarantee focus was set, but we tried.
         return true;
     } catch (error) {
-        console.error('Error focusing chat tab via command:', error);
+        logger.error('Error focusing chat tab via command:', error);
         // If the command fails, it likely means chat isn't available/installed correctly.
         return false;
     }
@@ -99,7 +101,7 @@ export async function sendChatMessage(message: string, backgroundMode = false):
             const activeTabGroup = vscode.window.tabGroups.activeTabGroup;
             activeTabToRestore = activeTabGroup?.activeTab;
         } catch (error) {
-            console.log('Error getting active tab info:', error);
+            logger.debug('Error getting active tab info:', error);
         }
     }
 
@@ -115,13 +117,14 @@ export async function sendChatMessage(message: string, backgroundMode = false):
             // Assuming one of the methods sets sentSuccessfully = true on success
             sentSuccessfully = true; // Placeholder for actual logic
         } catch (error) {
-            console.error('Error during message sending:', error);
+            logger.error('Error during message sending:', error);
         }
 
         // Update last message time if sent successfully
         if (sentSuccessfully) {
             lastMessageTime = Date.now();
-            console.log(`Updated lastMessageTime: ${lastMessageTime}`);
+            logger.debug(`Updated lastMessageTime: ${lastMessageTime}`);
+            TranscriptStore.getInstance().recordMessage(message);
         }
 
         if (backgroundMode && activeTabToRestore) {
@@ -130,7 +133,7 @@ export async function sendChatMessage(message: string, backgroundMode = false):
         }
         return sentSuccessfully;
     } catch (error) {
-        console.error('Failed to send message:', error);
+        logger.error('Failed to send message:', error);
         return false;
     }
 }
@@ -150,7 +153,7 @@ async function restoreFocus(tabToRestore: vscode.Tab): Promise<boolean> {
                 viewColumn,
                 preserveFocus: false
             });
-            console.log(`Restored focus to text document: ${tabToRestore.label}`);
+            logger.debug(`Restored focus to text document: ${tabToRestore.label}`);
             return true;
         }
 
@@ -171,14 +174,14 @@ async function restoreFocus(tabToRestore: vscode.Tab): Promise<boolean> {
             case vscode.ViewColumn.Eight: focusCommand = 'workbench.action.focusEighthEditorGroup'; break;
             case vscode.ViewColumn.Nine: focusCommand = 'workbench.action.focusNinthEditorGroup'; break;
             default:
-                console.warn(`Cannot reliably focus non-text tab in view column: ${viewColumn}`);
+                logger.warn(`Cannot reliably focus non-text tab in view column: ${viewColumn}`);
                 // Fallback or indicate failure
                 return false;
         }
 
         if (focusCommand) {
             await vscode.commands.executeCommand(focusCommand);
-            console.log(`Attempted to restore focus to group containing tab: ${tabToRestore.label}`);
+            logger.debug(`Attempted to restore focus to group containing tab: ${tabToRestore.label}`);
             // Note: This focuses the group, not necessarily the specific tab within it.
             return true;
         }
@@ -187,7 +190,7 @@ async function restoreFocus(tabToRestore: vscode.Tab): Promise<boolean> {
         return false;
 
     } catch (error) {
-        console.error('Error restoring focus:', error);
+        logger.error('Error restoring focus:', error);
         return false;
     }
 }
@@ -199,22 +202,22 @@ async function restoreFocus(tabToRestore: vscode.Tab): Promise<boolean> {
  */
 export async function selectAIModel(modelName: string): Promise<boolean> {
     try {
-        console.log(`Attempting to select AI model: ${modelName}`);
+        logger.debug(`Attempting to select AI model: ${modelName}`);
 
         // First ensure the chat is open
         const chatOpened = await ensureChatOpen(3, 1000, true);
         if (!chatOpened) {
-            console.log(`Failed to open chat before selecting model ${modelName}`);
+            logger.debug(`Failed to open chat before selecting model ${modelName}`);
             return false;
         }
 
         // Try to find and click on the model selector
         await vscode.commands.executeCommand('github.copilot-chat.selectModel', modelName);
 
-        console.log(`Successfully selected model: ${modelName}`);
+        logger.info(`Successfully selected model: ${modelName}`);
         return true;
     } catch (error) {
-        console.log(`Error selecting model ${modelName}:`, error);
+        logger.debug(`Error selecting model ${modelName}:`, error);
         return false;
     }
 }
@@ -225,12 +228,12 @@ export async function selectAIModel(modelName: string): Promise<boolean> {
  */
 export async function isAgentIdle(): Promise<boolean> {
     if (lastMessageTime === null) {
-        console.log('isAgentIdle: No message sent yet, assuming idle.');
+        logger.debug('isAgentIdle: No message sent yet, assuming idle.');
         return true; // No message sent yet, assume idle
     }
     const timeSinceLastMessage = Date.now() - lastMessageTime;
     const isIdle = timeSinceLastMessage > IDLE_THRESHOLD;
-    console.log(`isAgentIdle: Time since last message = ${timeSinceLastMessage}ms. Idle = ${isIdle}`);
+    logger.debug(`isAgentIdle: Time since last message = ${timeSinceLastMessage}ms. Idle = ${isIdle}`);
     return isIdle;
 }
 
@@ -268,7 +271,32 @@ export async function isAgentWorking(): Promise<boolean> {
 
         return false;
     } catch (error) {
-        console.error('Failed to check if agent is working:', error);
+        logger.error('Failed to check if agent is working:', error);
         return false; // Assume not working in case of error
     }
 }
+
+/**
+ * Reads the content of the current chat session
+ * Uses the "Copy All" chat action and restores the user's clipboard afterwards.
+ * @returns The chat transcript, or undefined if it could not be read
+ */
+export async function readChatTranscript(): Promise<string | undefined> {
+    let previousClipboard: string | undefined;
+
+    try {
+        previousClipboard = await vscode.env.clipboard.readText();
+        await vscode.commands.executeCommand('workbench.action.chat.copyAll');
+        const transcript = await vscode.env.clipboard.readText();
+
+        // Nothing was copied if the clipboard did not change
+        return transcript && transcript !== previousClipboard ? transcript : undefined;
+    } catch (error) {
+        logger.error('Failed to read chat transcript:', error);
+        return undefined;
+    } finally {
+        if (previousClipboard !== undefined) {
+            await vscode.env.clipboard.writeText(previousClipboard);
+        }
+    }
+}
@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+
+/**
+ * Source of the current time and of timers for the workflow's waits
+ * Tests swap in a virtual clock so that waits complete instantly.
+ */
+export interface Clock {
+    /** Current time (ms since epoch) */
+    now(): number;
+    /**
+     * Calls a function once after a delay
+     * @returns A disposable that cancels the call
+     */
+    schedule(callback: () => void, ms: number): vscode.Disposable;
+}
+
+/**
+ * The real clock
+ */
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    schedule: (callback, ms) => {
+        const timer = setTimeout(callback, ms);
+        return { dispose: () => clearTimeout(timer) };
+    }
+};
+
+let currentClock: Clock = systemClock;
+
+/**
+ * Gets the clock waits use
+ */
+export function getClock(): Clock {
+    return currentClock;
+}
+
+/**
+ * Replaces the clock waits use
+ * @param clock The clock, or undefined to go back to the system clock
+ */
+export function setClock(clock: Clock | undefined): void {
+    currentClock = clock ?? systemClock;
+}
+
+/**
+ * Gets the current time of the clock waits use (ms since epoch)
+ */
+export function now(): number {
+    return currentClock.now();
+}
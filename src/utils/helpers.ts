@@ -1,5 +1,6 @@
-import * as path from 'path';
 import * as vscode from 'vscode';
+import { WorkflowCancelledError } from '../errors/workflow_errors';
+import { getClock } from './clock';
 
 /**
  * Generates a nonce string for use with Content Security Policy
@@ -27,90 +28,51 @@ export function toTitleCase(str: string): string {
 }
 
 /**
- * Reads a prompt file from the prompts directory
- * @param filename The name of the prompt file (with or without .md extension)
- * @returns The content of the prompt file as a string
+ * Formats a duration for display, e.g. `45s`, `3m 12s` or `1h 5m`
+ * @param ms Duration in milliseconds
+ * @returns The formatted duration
  */
-export async function readPromptFile(filename: string): Promise<string> {
-    try {
-        // Add .md extension if not provided
-        if (!filename.endsWith('.md')) {
-            filename = `${filename}.md`;
-        }
-
-        // Get the extension path
-        const extensionPath = vscode.extensions.getExtension('your-publisher.marco-ai')?.extensionUri ||
-            vscode.Uri.file(__dirname).with({ path: path.resolve(__dirname, '../..') });
-
-        // Build the full path to the prompt file
-        const promptPath = vscode.Uri.joinPath(extensionPath, 'src', 'prompts', filename);
-
-        // Read the file content
-        const content = await vscode.workspace.fs.readFile(promptPath);
-
-        // Convert Buffer to string
-        return new TextDecoder().decode(content);
-    } catch (error) {
-        console.error(`Failed to read prompt file ${filename}:`, error);
-        throw new Error(`Failed to read prompt file ${filename}: ${error}`);
+export function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) {
+        return `${seconds}s`;
     }
-}
-
-/**
- * Sends a prompt to the Copilot Chat
- * @param promptContent The content to send to the chat
- */
-export async function sendPromptToChat(promptContent: string): Promise<void> {
-    try {
-        // First ensure the chat is open
-        await vscode.commands.executeCommand('github.copilot-chat.openChat');
-
-        // Send the message to the chat
-        await vscode.commands.executeCommand('github.copilot-chat.sendMessage', { message: promptContent });
-    } catch (error) {
-        console.error('Failed to send prompt to chat:', error);
-        throw new Error(`Failed to send prompt to chat: ${error}`);
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) {
+        return `${minutes}m ${seconds % 60}s`;
     }
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
 }
 
 /**
- * Checks if the Copilot Chat view is open
- * @returns True if the chat view is open, false otherwise
+ * Generates a unique identifier, e.g. for workflow runs
+ * @returns A sortable identifier made of a timestamp and a random suffix
  */
-export function isChatViewOpen(): boolean {
-    return vscode.window.tabGroups.all
-        .flatMap(group => group.tabs)
-        .some(tab => tab.label.includes('Copilot Chat'));
+export function generateUniqueId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
 }
 
 /**
- * Opens the Copilot Chat view if it's not already open
- */
-export async function ensureChatViewOpen(): Promise<void> {
-    if (!isChatViewOpen()) {
-        await vscode.commands.executeCommand('github.copilot-chat.openChat');
-    }
-}
-
-/**
- * Sets the Copilot agent mode (Agent, Edit, Ask)
- * @param mode The mode to set
- */
-export async function setAgentMode(mode: 'Agent' | 'Edit' | 'Ask'): Promise<void> {
-    try {
-        // This requires knowledge of the internal commands for changing modes
-        // Replace with actual command if available in the Copilot API
-        await vscode.commands.executeCommand('github.copilot-chat.setAgentMode', { mode });
-    } catch (error) {
-        console.error(`Failed to set agent mode to ${mode}:`, error);
-    }
-}
-
-/**
- * Sleep for a specified number of milliseconds
+ * Sleep for a specified number of milliseconds, as measured by the clock from getClock
  * @param ms Number of milliseconds to sleep
+ * @param token Optional cancellation token that aborts the sleep
  * @returns A promise that resolves after the specified time
+ * @throws WorkflowCancelledError if the token is cancelled before the time is up
  */
-export function sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-}
\ No newline at end of file
+export function sleep(ms: number, token?: vscode.CancellationToken): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (token?.isCancellationRequested) {
+            reject(new WorkflowCancelledError());
+            return;
+        }
+
+        const subscription = token?.onCancellationRequested(() => {
+            timer.dispose();
+            reject(new WorkflowCancelledError());
+        });
+        const timer = getClock().schedule(() => {
+            subscription?.dispose();
+            resolve();
+        }, ms);
+    });
+}
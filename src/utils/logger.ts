@@ -0,0 +1,105 @@
+import * as util from 'util';
+import * as vscode from 'vscode';
+import { TranscriptStore } from '../chat/transcript';
+import { StatusManager } from '../statusManager';
+
+/**
+ * Setting values of `marco.logLevel`, from most to least verbose
+ */
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'off';
+
+const LOG_LEVELS: readonly LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error', 'off'];
+
+/**
+ * Writes Marco's logs to the `Marco AI` output channel
+ * Every line is prefixed with the time, its level, the current run and workflow state. Lines
+ * less severe than `marco.logLevel` are dropped. The channel is a plain output channel, as a
+ * log channel would also drop lines below its own level (Info unless changed in the Output view).
+ */
+export class Logger {
+    private channel: vscode.OutputChannel | undefined;
+    private level: LogLevel = readLogLevel();
+
+    /**
+     * Dispose the channel with the extension and follow changes of `marco.logLevel`
+     * @param context The extension context
+     */
+    public initialize(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            this.getChannel(),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('marco.logLevel')) {
+                    this.level = readLogLevel();
+                }
+            })
+        );
+    }
+
+    public trace(message: string, ...args: unknown[]): void {
+        this.log('trace', message, args);
+    }
+
+    public debug(message: string, ...args: unknown[]): void {
+        this.log('debug', message, args);
+    }
+
+    public info(message: string, ...args: unknown[]): void {
+        this.log('info', message, args);
+    }
+
+    public warn(message: string, ...args: unknown[]): void {
+        this.log('warn', message, args);
+    }
+
+    public error(message: string, ...args: unknown[]): void {
+        this.log('error', message, args);
+    }
+
+    /**
+     * Reveal the output channel
+     */
+    public show(): void {
+        this.getChannel().show(true);
+    }
+
+    private log(level: LogLevel, message: string, args: unknown[]): void {
+        if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) {
+            return;
+        }
+        const details = args.map(formatArgument).join(' ');
+        this.getChannel().appendLine(`${new Date().toISOString()} [${level}] ${this.withContext(message)}${details ? ` ${details}` : ''}`);
+    }
+
+    private withContext(message: string): string {
+        const runId = TranscriptStore.getInstance().getCurrentRunId() ?? '-';
+        const state = StatusManager.getInstance().getState();
+        return `[run ${runId}] [${state}] ${message}`;
+    }
+
+    private getChannel(): vscode.OutputChannel {
+        if (!this.channel) {
+            this.channel = vscode.window.createOutputChannel('Marco AI');
+        }
+        return this.channel;
+    }
+}
+
+function readLogLevel(): LogLevel {
+    const level = vscode.workspace.getConfiguration('marco').get<LogLevel>('logLevel');
+    return level && LOG_LEVELS.includes(level) ? level : 'info';
+}
+
+/**
+ * Formats an extra log argument; errors with their stack
+ */
+function formatArgument(arg: unknown): string {
+    if (arg instanceof Error) {
+        return arg.stack ?? `${arg.name}: ${arg.message}`;
+    }
+    return typeof arg === 'string' ? arg : util.inspect(arg, { depth: 3, breakLength: Infinity });
+}
+
+/**
+ * The logger shared by all Marco modules
+ */
+export const logger = new Logger();
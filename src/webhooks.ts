@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import { StatusManager, WorkflowState } from './statusManager';
+import { sleep } from './utils/helpers';
+import { logger } from './utils/logger';
+import { WorkflowRunner } from './workflows/workflowRunner';
+
+/** Prefix of the SecretStorage keys holding the auth header values, followed by the URL */
+const AUTH_SECRET_PREFIX = 'marco.webhookAuth:';
+
+/** Time a webhook request may take (ms) */
+const REQUEST_TIMEOUT = 10000;
+
+/** Delay before the first retry (ms); it doubles with every further retry */
+const INITIAL_RETRY_DELAY = 1000;
+
+/** Default number of retries after a failed delivery */
+const DEFAULT_MAX_RETRIES = 3;
+
+/**
+ * A webhook from `marco.webhooks`
+ */
+export interface WebhookConfig {
+    url: string;
+    /** States to send; all states when empty or missing */
+    states?: WorkflowState[];
+    /** Name of the header that carries the secret set with `Marco AI: Set Webhook Auth Header` */
+    authHeaderName?: string;
+    /** Retries after a failed delivery (default 3) */
+    maxRetries?: number;
+}
+
+/**
+ * JSON body POSTed to the webhooks
+ */
+export interface WebhookPayload {
+    event: 'stateChanged' | 'test';
+    runId?: string;
+    state: WorkflowState;
+    message?: string;
+    /** Iteration of the run (1-based) */
+    iteration: number;
+    task?: string;
+    /** ISO 8601 time of the state change */
+    timestamp: string;
+}
+
+/**
+ * Outcome of delivering a payload to a webhook
+ */
+export interface WebhookDelivery {
+    url: string;
+    delivered: boolean;
+    /** HTTP status of the last attempt, if a response was received */
+    status?: number;
+    error?: string;
+    attempts: number;
+}
+
+/**
+ * POSTs a JSON payload to the configured webhooks whenever the workflow changes state
+ */
+export class WebhookDispatcher {
+    private static instance: WebhookDispatcher;
+    private context: vscode.ExtensionContext | undefined;
+    /** Deliveries per URL, chained so every webhook receives the events in order */
+    private queues = new Map<string, Promise<unknown>>();
+    /** State the last event was about; updates within the same state are not sent */
+    private lastState: WorkflowState | undefined;
+
+    private constructor() { }
+
+    /**
+     * Get the singleton instance of WebhookDispatcher
+     */
+    public static getInstance(): WebhookDispatcher {
+        if (!WebhookDispatcher.instance) {
+            WebhookDispatcher.instance = new WebhookDispatcher();
+        }
+        return WebhookDispatcher.instance;
+    }
+
+    /**
+     * Start sending state changes to the webhooks
+     * @param context The extension context
+     */
+    public initialize(context: vscode.ExtensionContext): void {
+        this.context = context;
+        this.lastState = StatusManager.getInstance().getState();
+        context.subscriptions.push(
+            StatusManager.getInstance().onStateChanged((state, message) => this.onWorkflowStateChanged(state, message))
+        );
+    }
+
+    /**
+     * Sends a test event to every configured webhook, ignoring their state filters
+     * @returns One delivery per webhook
+     */
+    public async sendTestEvent(): Promise<WebhookDelivery[]> {
+        const payload: WebhookPayload = {
+            ...this.createPayload(StatusManager.getInstance().getState(), 'Test event from Marco AI'),
+            event: 'test'
+        };
+        return Promise.all(getWebhooks().map(webhook => this.enqueue(webhook, payload)));
+    }
+
+    /**
+     * Stores the value of a webhook's auth header, e.g. `Bearer <token>`
+     * @param url The webhook URL
+     * @param value The header value, or undefined to remove it
+     */
+    public async setAuthHeader(url: string, value: string | undefined): Promise<void> {
+        if (!this.context) {
+            return;
+        }
+        if (value) {
+            await this.context.secrets.store(AUTH_SECRET_PREFIX + url, value);
+        } else {
+            await this.context.secrets.delete(AUTH_SECRET_PREFIX + url);
+        }
+    }
+
+    private onWorkflowStateChanged(state: WorkflowState, message?: string): void {
+        const changed = state !== this.lastState;
+        this.lastState = state;
+        if (!changed) {
+            return;
+        }
+
+        const webhooks = getWebhooks().filter(webhook => !webhook.states?.length || webhook.states.includes(state));
+        if (webhooks.length === 0) {
+            return;
+        }
+
+        const payload = this.createPayload(state, message);
+        for (const webhook of webhooks) {
+            this.enqueue(webhook, payload);
+        }
+    }
+
+    private createPayload(state: WorkflowState, message: string | undefined): WebhookPayload {
+        const runner = WorkflowRunner.getInstance();
+        return {
+            event: 'stateChanged',
+            runId: runner.getRunId(),
+            state,
+            message,
+            iteration: runner.getIteration() + 1,
+            task: runner.getTaskDescription(),
+            timestamp: new Date().toISOString()
+        };
+    }
+
+    private enqueue(webhook: WebhookConfig, payload: WebhookPayload): Promise<WebhookDelivery> {
+        const previous = this.queues.get(webhook.url) ?? Promise.resolve();
+        const delivery = previous.catch(() => undefined).then(() => this.deliver(webhook, payload));
+        this.queues.set(webhook.url, delivery);
+        return delivery;
+    }
+
+    /**
+     * POSTs the payload, retrying with exponential backoff on network errors, 429 and 5xx responses
+     */
+    private async deliver(webhook: WebhookConfig, payload: WebhookPayload): Promise<WebhookDelivery> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        const authValue = await this.context?.secrets.get(AUTH_SECRET_PREFIX + webhook.url);
+        if (authValue) {
+            headers[webhook.authHeaderName || 'Authorization'] = authValue;
+        }
+
+        const maxRetries = webhook.maxRetries ?? DEFAULT_MAX_RETRIES;
+        const body = JSON.stringify(payload);
+        let result: WebhookDelivery = { url: webhook.url, delivered: false, attempts: 0 };
+
+        for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+            if (attempt > 1) {
+                await sleep(INITIAL_RETRY_DELAY * 2 ** (attempt - 2));
+            }
+
+            try {
+                const response = await fetch(webhook.url, {
+                    method: 'POST',
+                    headers,
+                    body,
+                    signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+                });
+                result = { url: webhook.url, delivered: response.ok, status: response.status, attempts: attempt };
+                if (response.ok || (response.status < 500 && response.status !== 429)) {
+                    break;
+                }
+            } catch (error) {
+                result = { url: webhook.url, delivered: false, error: error instanceof Error ? error.message : String(error), attempts: attempt };
+            }
+        }
+
+        if (result.delivered) {
+            logger.debug(`Sent ${payload.state} event to ${webhook.url}`);
+        } else {
+            logger.warn(`Could not send ${payload.state} event to ${webhook.url} after ${result.attempts} attempts: ${result.error ?? `HTTP ${result.status}`}`);
+        }
+        return result;
+    }
+}
+
+/**
+ * Reads the webhooks from `marco.webhooks`, skipping entries without a valid http(s) URL
+ */
+export function getWebhooks(): WebhookConfig[] {
+    const configured = vscode.workspace.getConfiguration('marco').get<unknown[]>('webhooks') ?? [];
+    return configured.filter((webhook): webhook is WebhookConfig => {
+        const url = (webhook as WebhookConfig | undefined)?.url;
+        const valid = typeof url === 'string' && /^https?:\/\//i.test(url);
+        if (!valid) {
+            logger.warn(`Ignoring webhook without a valid http(s) URL: ${JSON.stringify(webhook)}`);
+        }
+        return valid;
+    });
+}
@@ -0,0 +1,64 @@
+/**
+ * Counts of the checklist markers found in an agent reply
+ */
+export interface ChecklistStatus {
+    /** Items marked ✅ */
+    complete: number;
+    /** Items marked ⚠️ */
+    partial: number;
+    /** Items marked ❌ */
+    incomplete: number;
+}
+
+/**
+ * Parses the ✅ / ⚠️ / ❌ markers the `check_checklist` prompt asks the agent to use
+ * Only the first marker on each line is counted, so a line such as
+ * "1. Tests ⚠️ Partially Complete (❌ e2e missing)" counts as one partial item.
+ * @param reply The agent's reply to the checklist verification prompt
+ * @returns The number of items in each status
+ */
+export function parseChecklistStatus(reply: string): ChecklistStatus {
+    const status: ChecklistStatus = { complete: 0, partial: 0, incomplete: 0 };
+
+    for (const line of reply.split(/\r?\n/)) {
+        const match = /✅|⚠|❌/u.exec(line);
+        if (!match) {
+            continue;
+        }
+
+        switch (match[0]) {
+            case '✅': status.complete++; break;
+            case '⚠': status.partial++; break;
+            case '❌': status.incomplete++; break;
+        }
+    }
+
+    return status;
+}
+
+/**
+ * Whether a parsed checklist is fully green
+ * A reply without any marker is not considered complete, since nothing was verified.
+ * @param status The parsed checklist status
+ */
+export function isChecklistComplete(status: ChecklistStatus): boolean {
+    return status.complete > 0 && status.partial === 0 && status.incomplete === 0;
+}
+
+/**
+ * Extracts the part of a chat transcript that follows the last occurrence of a sent message
+ * @param transcript The full chat transcript
+ * @param sentMessage The message whose reply is wanted
+ * @returns The text after the message, or the whole transcript if the message is not found
+ */
+export function extractReply(transcript: string, sentMessage: string): string {
+    // Chat exports may reflow whitespace, so anchor on the last non-empty line of the message
+    const lines = sentMessage.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+    const anchor = lines[lines.length - 1];
+    if (!anchor) {
+        return transcript;
+    }
+
+    const index = transcript.lastIndexOf(anchor);
+    return index === -1 ? transcript : transcript.slice(index + anchor.length);
+}
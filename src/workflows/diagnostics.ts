@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+
+/**
+ * Setting values of `marco.diagnosticsSeverity`
+ */
+export type DiagnosticsThreshold = 'error' | 'warning' | 'information' | 'hint' | 'off';
+
+/** Paths never reported as touched by the agent */
+const IGNORED_PATHS = /[\\/](node_modules|\.git)[\\/]/;
+
+/**
+ * A diagnostic that appeared while the agent worked
+ */
+export interface ReportedDiagnostic {
+    /** Workspace-relative path of the file */
+    file: string;
+    /** 1-based line number */
+    line: number;
+    severity: vscode.DiagnosticSeverity;
+    message: string;
+    source?: string;
+    code?: string;
+}
+
+/**
+ * Tracks the files the agent touches and the diagnostics they had before
+ * Call reset() at the start of an iteration; collectNewProblems() then reports
+ * the problems that were not there at that point.
+ */
+export class DiagnosticsTracker implements vscode.Disposable {
+    private touched = new Map<string, vscode.Uri>();
+    private baseline = new Map<string, Map<string, number>>();
+    private disposables: vscode.Disposable[];
+
+    constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+        const markTouched = (uri: vscode.Uri) => {
+            if (uri.scheme === 'file' && !IGNORED_PATHS.test(uri.path)) {
+                this.touched.set(uri.toString(), uri);
+            }
+        };
+
+        this.disposables = [
+            watcher,
+            watcher.onDidChange(markTouched),
+            watcher.onDidCreate(markTouched),
+            vscode.workspace.onDidChangeTextDocument(e => {
+                if (e.contentChanges.length > 0) {
+                    markTouched(e.document.uri);
+                }
+            })
+        ];
+        this.reset();
+    }
+
+    /**
+     * Forgets the touched files and records the current diagnostics as the baseline
+     */
+    public reset(): void {
+        this.touched.clear();
+        this.baseline = new Map(
+            vscode.languages.getDiagnostics().map(([uri, diagnostics]) => [uri.toString(), countByKey(diagnostics)])
+        );
+    }
+
+    /**
+     * Gets the files touched since the last reset
+     */
+    public getTouchedFiles(): vscode.Uri[] {
+        return [...this.touched.values()];
+    }
+
+    /**
+     * Collects the problems in touched files that were not in the baseline
+     * @param threshold Least severe diagnostic to report
+     * @param maxItems Maximum number of problems to return
+     * @returns The new problems, most severe first, and how many there were in total
+     */
+    public collectNewProblems(
+        threshold: vscode.DiagnosticSeverity,
+        maxItems: number
+    ): { problems: ReportedDiagnostic[]; total: number } {
+        const problems: ReportedDiagnostic[] = [];
+
+        for (const uri of this.touched.values()) {
+            // Diagnostics already present at the last reset are not the agent's doing
+            const remaining = new Map(this.baseline.get(uri.toString()) ?? []);
+            for (const diagnostic of vscode.languages.getDiagnostics(uri)) {
+                if (diagnostic.severity > threshold) {
+                    continue;
+                }
+                const key = diagnosticKey(diagnostic);
+                const known = remaining.get(key) ?? 0;
+                if (known > 0) {
+                    remaining.set(key, known - 1);
+                    continue;
+                }
+                problems.push({
+                    file: vscode.workspace.asRelativePath(uri),
+                    line: diagnostic.range.start.line + 1,
+                    severity: diagnostic.severity,
+                    message: diagnostic.message,
+                    source: diagnostic.source,
+                    code: formatCode(diagnostic.code)
+                });
+            }
+        }
+
+        problems.sort((a, b) => a.severity - b.severity || a.file.localeCompare(b.file) || a.line - b.line);
+        return { problems: problems.slice(0, maxItems), total: problems.length };
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+/**
+ * Converts the `marco.diagnosticsSeverity` setting to a severity
+ * @returns The least severe diagnostic to report, or undefined when reporting is off
+ */
+export function toSeverityThreshold(threshold: DiagnosticsThreshold | undefined): vscode.DiagnosticSeverity | undefined {
+    switch (threshold ?? 'warning') {
+        case 'error': return vscode.DiagnosticSeverity.Error;
+        case 'warning': return vscode.DiagnosticSeverity.Warning;
+        case 'information': return vscode.DiagnosticSeverity.Information;
+        case 'hint': return vscode.DiagnosticSeverity.Hint;
+        default: return undefined;
+    }
+}
+
+/**
+ * Formats problems for a prompt to the agent, grouped by file
+ * @param problems The problems to format
+ * @param total Number of problems before the cap was applied
+ */
+export function formatDiagnostics(problems: ReportedDiagnostic[], total: number): string {
+    const byFile = new Map<string, ReportedDiagnostic[]>();
+    for (const problem of problems) {
+        byFile.set(problem.file, [...(byFile.get(problem.file) ?? []), problem]);
+    }
+
+    const sections = [...byFile].map(([file, fileProblems]) => {
+        const lines = fileProblems.map(problem => {
+            const origin = [problem.source, problem.code].filter(Boolean).join(' ');
+            return `- Line ${problem.line}, ${severityName(problem.severity)}: ${problem.message}${origin ? ` (${origin})` : ''}`;
+        });
+        return `### ${file}\n\n${lines.join('\n')}`;
+    });
+
+    if (total > problems.length) {
+        sections.push(`...and ${total - problems.length} more.`);
+    }
+    return sections.join('\n\n');
+}
+
+function countByKey(diagnostics: readonly vscode.Diagnostic[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const diagnostic of diagnostics) {
+        const key = diagnosticKey(diagnostic);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return counts;
+}
+
+/**
+ * Identifies a diagnostic independently of its position, since edits move existing problems around
+ */
+function diagnosticKey(diagnostic: vscode.Diagnostic): string {
+    return `${diagnostic.severity}|${diagnostic.source ?? ''}|${formatCode(diagnostic.code) ?? ''}|${diagnostic.message}`;
+}
+
+function formatCode(code: vscode.Diagnostic['code']): string | undefined {
+    if (code === undefined) {
+        return undefined;
+    }
+    return typeof code === 'object' ? String(code.value) : String(code);
+}
+
+function severityName(severity: vscode.DiagnosticSeverity): string {
+    switch (severity) {
+        case vscode.DiagnosticSeverity.Error: return 'error';
+        case vscode.DiagnosticSeverity.Warning: return 'warning';
+        case vscode.DiagnosticSeverity.Information: return 'info';
+        default: return 'hint';
+    }
+}
@@ -0,0 +1,295 @@
+import * as vscode from 'vscode';
+import { ConfigurationError } from '../errors/workflow_errors';
+import { WorkflowState } from '../statusManager';
+import { validateVerificationCommands, VerificationCommand } from './verification';
+
+/**
+ * Default location of the workspace pipeline file, relative to the workspace root
+ */
+export const DEFAULT_PIPELINE_FILE = '.marco/workflow.json';
+
+/**
+ * Wait condition applied after a step has been executed
+ */
+export interface WaitCondition {
+    /** Fixed delay in milliseconds, applied before any other condition */
+    delayMs?: number;
+    /** Wait until the agent has finished working on the step's prompt */
+    agentDone?: boolean;
+    /** Timeout for `agentDone` (defaults to the `marco.agentTimeout` setting) */
+    timeoutMs?: number;
+    /** Quiet period for `agentDone` (defaults to the `marco.quietPeriod` setting) */
+    quietPeriodMs?: number;
+}
+
+/**
+ * Properties shared by every pipeline step
+ */
+interface BaseStep {
+    /** Identifier of the step, used in logs and error messages */
+    id?: string;
+    /** Workflow state to report while the step runs */
+    state?: WorkflowState;
+    /** Status message to report while the step runs */
+    message?: string;
+    /** Name of a boolean `marco.*` setting gating the step; prefix with `!` to negate */
+    when?: string;
+    /** Wait condition applied once the step is done */
+    wait?: WaitCondition;
+}
+
+/** Opens the Copilot chat (focus depends on background mode) */
+export interface OpenChatStep extends BaseStep {
+    type: 'openChat';
+}
+
+/** Announces the configured `marco.agentMode` to the agent */
+export interface SetAgentModeStep extends BaseStep {
+    type: 'setAgentMode';
+}
+
+/** Selects the first available model from `marco.preferredModels` */
+export interface SelectModelStep extends BaseStep {
+    type: 'selectModel';
+}
+
+/** Sends the task description saved from the sidebar as a message of its own */
+export interface SendTaskStep extends BaseStep {
+    type: 'sendTask';
+}
+
+/** Creates and checks out a new Git branch */
+export interface CreateBranchStep extends BaseStep {
+    type: 'createBranch';
+}
+
+/** Sends a prompt file or an inline text to the chat, rendered as a template (see promptTemplate.ts) */
+export interface PromptStep extends BaseStep {
+    type: 'prompt';
+    /** Name of the prompt file (without extension) */
+    prompt?: string;
+    /** Inline text, used when no prompt file is given */
+    text?: string;
+    /** Chat mention prepended to the message (default `@marco` or `@agent`, empty string for none) */
+    mention?: string;
+}
+
+/**
+ * Runs VS Code tasks or shell commands (build, lint, test) and checks their exit codes
+ * Failures are sent back to the agent as the next iteration's prompt.
+ */
+export interface VerifyStep extends BaseStep {
+    type: 'verify';
+    /** Commands to run (defaults to the `marco.verificationCommands` setting) */
+    commands?: VerificationCommand[];
+}
+
+/**
+ * Sends the compiler and linter problems that appeared in the files the agent touched
+ * during the current iteration, and waits for the agent to fix them
+ * Does nothing when there are no new problems.
+ */
+export interface CheckDiagnosticsStep extends BaseStep {
+    type: 'checkDiagnostics';
+}
+
+/** Repeats its steps until the exit condition is met */
+export interface LoopStep extends BaseStep {
+    type: 'loop';
+    steps: PipelineStep[];
+    /** Prompt file sent before every repetition */
+    continuePrompt?: string;
+    /** Exit condition: `checklistComplete` asks the iteration check, `once` never repeats */
+    until?: 'checklistComplete' | 'once';
+    /** Upper bound on the number of repetitions */
+    maxIterations?: number;
+}
+
+export type PipelineStep =
+    | OpenChatStep
+    | SetAgentModeStep
+    | SelectModelStep
+    | SendTaskStep
+    | CreateBranchStep
+    | PromptStep
+    | VerifyStep
+    | CheckDiagnosticsStep
+    | LoopStep;
+
+/**
+ * A declarative description of a Marco workflow
+ */
+export interface WorkflowPipeline {
+    version: 1;
+    name?: string;
+    steps: PipelineStep[];
+}
+
+const STEP_TYPES: ReadonlyArray<PipelineStep['type']> = [
+    'openChat', 'setAgentMode', 'selectModel', 'sendTask', 'createBranch', 'prompt', 'verify', 'checkDiagnostics', 'loop'
+];
+
+/**
+ * The bundled pipeline, equivalent to the original hard-coded workflow
+ */
+export const DEFAULT_PIPELINE: WorkflowPipeline = {
+    version: 1,
+    name: 'Default development workflow',
+    steps: [
+        { id: 'open-chat', type: 'openChat', state: WorkflowState.Initializing, message: 'Setting up environment' },
+        { id: 'agent-mode', type: 'setAgentMode', state: WorkflowState.SendingTask, message: 'Setting agent mode' },
+        { id: 'select-model', type: 'selectModel', state: WorkflowState.SendingTask, message: 'Selecting optimal AI model' },
+        {
+            id: 'create-branch', type: 'createBranch', when: 'initCreateBranch',
+            state: WorkflowState.CreatingBranch, message: 'Creating new branch', wait: { delayMs: 2000 }
+        },
+        {
+            id: 'development',
+            type: 'loop',
+            until: 'checklistComplete',
+            continuePrompt: 'continue_iteration',
+            state: WorkflowState.ContinuingIteration,
+            wait: { agentDone: true },
+            steps: [
+                {
+                    id: 'init', type: 'prompt', prompt: 'init',
+                    state: WorkflowState.SendingTask, message: 'Sending task and development checklist', wait: { agentDone: true }
+                },
+                {
+                    id: 'check-agent', type: 'prompt', prompt: 'check_agent',
+                    state: WorkflowState.CheckingStatus, message: 'Checking agent progress', wait: { agentDone: true }
+                },
+                {
+                    id: 'write-tests', type: 'prompt', prompt: 'write_tests', when: 'needToWriteTest',
+                    state: WorkflowState.RequestingTests, message: 'Requesting test implementation', wait: { agentDone: true }
+                },
+                {
+                    id: 'test-progress', type: 'prompt', prompt: 'test_progress', when: 'needToWriteTest',
+                    state: WorkflowState.CheckingStatus, message: 'Checking agent progress on tests', wait: { agentDone: true }
+                },
+                {
+                    id: 'diagnostics', type: 'checkDiagnostics',
+                    state: WorkflowState.CheckingStatus, message: 'Checking for new problems'
+                },
+                {
+                    id: 'check-checklist', type: 'prompt', prompt: 'check_checklist',
+                    state: WorkflowState.VerifyingChecklist, message: 'Verifying checklist completion', wait: { agentDone: true }
+                },
+                {
+                    id: 'verify', type: 'verify',
+                    state: WorkflowState.VerifyingCompletion, message: 'Running verification commands'
+                }
+            ]
+        }
+    ]
+};
+
+/**
+ * Loads the workflow pipeline for the current workspace
+ * Falls back to the bundled default pipeline when no workspace file exists
+ * @returns The pipeline to execute
+ * @throws ConfigurationError if the workspace file exists but is invalid
+ */
+export async function loadPipeline(): Promise<WorkflowPipeline> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        return DEFAULT_PIPELINE;
+    }
+
+    const config = vscode.workspace.getConfiguration('marco');
+    const relativePath = config.get<string>('workflowFile') || DEFAULT_PIPELINE_FILE;
+    const fileUri = vscode.Uri.joinPath(workspaceFolder.uri, relativePath);
+
+    let raw: string;
+    try {
+        const contentBytes = await vscode.workspace.fs.readFile(fileUri);
+        raw = new TextDecoder().decode(contentBytes);
+    } catch {
+        // No workspace pipeline, use the bundled one
+        return DEFAULT_PIPELINE;
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (error) {
+        throw new ConfigurationError(`Invalid JSON in ${relativePath}: ${error}`);
+    }
+
+    return validatePipeline(parsed, relativePath);
+}
+
+/**
+ * Validates an untrusted pipeline object
+ * @param value The parsed pipeline
+ * @param source Where the pipeline came from, used in error messages
+ * @returns The validated pipeline
+ * @throws ConfigurationError if the pipeline is malformed
+ */
+export function validatePipeline(value: unknown, source = 'pipeline'): WorkflowPipeline {
+    if (!isObject(value)) {
+        throw new ConfigurationError(`${source}: pipeline must be a JSON object`);
+    }
+    if (value.version !== 1) {
+        throw new ConfigurationError(`${source}: unsupported pipeline version '${value.version}', expected 1`);
+    }
+    if (!Array.isArray(value.steps) || value.steps.length === 0) {
+        throw new ConfigurationError(`${source}: 'steps' must be a non-empty array`);
+    }
+
+    value.steps.forEach((step, index) => validateStep(step, `${source}: steps[${index}]`));
+    return value as unknown as WorkflowPipeline;
+}
+
+/**
+ * Validates a single step, recursing into loops
+ */
+function validateStep(step: unknown, location: string): void {
+    if (!isObject(step)) {
+        throw new ConfigurationError(`${location} must be an object`);
+    }
+    if (!STEP_TYPES.includes(step.type as PipelineStep['type'])) {
+        throw new ConfigurationError(`${location} has unknown type '${step.type}'`);
+    }
+    if (step.state !== undefined && !Object.values(WorkflowState).includes(step.state as WorkflowState)) {
+        throw new ConfigurationError(`${location} has unknown state '${step.state}'`);
+    }
+    if (step.when !== undefined && typeof step.when !== 'string') {
+        throw new ConfigurationError(`${location}: 'when' must be a setting name`);
+    }
+    if (step.wait !== undefined) {
+        if (!isObject(step.wait)) {
+            throw new ConfigurationError(`${location}: 'wait' must be an object`);
+        }
+        for (const key of ['delayMs', 'timeoutMs', 'quietPeriodMs']) {
+            if (step.wait[key] !== undefined && typeof step.wait[key] !== 'number') {
+                throw new ConfigurationError(`${location}: 'wait.${key}' must be a number`);
+            }
+        }
+        if (step.wait.agentDone !== undefined && typeof step.wait.agentDone !== 'boolean') {
+            throw new ConfigurationError(`${location}: 'wait.agentDone' must be a boolean`);
+        }
+    }
+
+    if (step.type === 'prompt' && typeof step.prompt !== 'string' && typeof step.text !== 'string') {
+        throw new ConfigurationError(`${location}: prompt steps need a 'prompt' file name or a 'text'`);
+    }
+
+    if (step.type === 'verify' && step.commands !== undefined) {
+        validateVerificationCommands(step.commands, `${location}.commands`);
+    }
+
+    if (step.type === 'loop') {
+        if (!Array.isArray(step.steps) || step.steps.length === 0) {
+            throw new ConfigurationError(`${location}: loop steps need a non-empty 'steps' array`);
+        }
+        if (step.until !== undefined && step.until !== 'checklistComplete' && step.until !== 'once') {
+            throw new ConfigurationError(`${location}: 'until' must be 'checklistComplete' or 'once'`);
+        }
+        step.steps.forEach((child, index) => validateStep(child, `${location}.steps[${index}]`));
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,558 @@
+import * as vscode from 'vscode';
+import { AgentMode, ChatBackend, ChatResponse } from '../chat/chatBackend';
+import { ConfigurationError, VerificationFailedError } from '../errors/workflow_errors';
+import { TaskType } from '../git/branchNaming';
+import { createAndCheckoutBranch, getChangedFiles } from '../git/gitService';
+import { WorkflowState } from '../statusManager';
+import { waitForAgentCompletion } from '../utils/agentWait';
+import { now } from '../utils/clock';
+import { sleep } from '../utils/helpers';
+import { logger } from '../utils/logger';
+import { ChecklistStatus, extractReply, isChecklistComplete, parseChecklistStatus } from './checklist';
+import { DiagnosticsThreshold, DiagnosticsTracker, formatDiagnostics, toSeverityThreshold } from './diagnostics';
+import { LoopStep, PipelineStep, PromptStep, VerifyStep, WaitCondition, WorkflowPipeline } from './pipeline';
+import { loadPromptFile } from './promptLoader';
+import { PromptVariables, renderPrompt } from './promptTemplate';
+import { formatVerificationResults, runVerificationCommands, VerificationCommand, VerificationResult } from './verification';
+
+/** Time language servers get to report problems for the touched files (ms) */
+const DIAGNOSTICS_SETTLE_MS = 3000;
+
+/** Upper bound on the touched files opened to get their problems reported */
+const MAX_DOCUMENTS_TO_OPEN = 50;
+
+/**
+ * The reviewer's decision on an iteration (see the `marco.reviewGate` setting)
+ */
+export type ReviewDecision =
+    | { action: 'approve' }
+    | { action: 'reject'; feedback: string }
+    | { action: 'revert'; feedback?: string };
+
+/**
+ * Callbacks the executor uses to interact with the workflow that owns it
+ */
+export interface PipelineHooks {
+    /** Reports the workflow state of the step being executed */
+    setState(state: WorkflowState, message?: string): void;
+    /** Throws if the workflow was cancelled, waits while it is paused */
+    checkContinue(token: vscode.CancellationToken): Promise<void>;
+    /** Whether messages should be sent without stealing focus */
+    isBackgroundMode(): boolean;
+    /** The current iteration number */
+    getIteration(): number;
+    /** Increments the iteration number and returns the new value */
+    nextIteration(): number;
+    /** Whether the user asked for another iteration; clears the request */
+    consumeContinueRequest(): boolean;
+    /** The task description the run works on */
+    getTaskDescription(): string;
+    /** The branch created for the run, if any */
+    getBranchName(): string | undefined;
+    /** Root folder of the repository the run's branch was created in, if any */
+    getRepoRoot(): string | undefined;
+    /** Reads a `marco.*` setting, honoring the run's overrides */
+    getSetting<T>(key: string): T | undefined;
+    /** Called with the name of the branch created for the run and the root of its repository */
+    onBranchCreated(branchName: string, repoRoot: string): Promise<void>;
+    /** Called after each pass of a loop, with the id of the last step that ran */
+    onIterationCompleted(lastStepId: string | undefined): Promise<void>;
+    /** Shows the changes of the iteration that just ended and waits for the user's decision */
+    requestReview(token: vscode.CancellationToken): Promise<ReviewDecision>;
+    /** Called after each step, with its position in the pipeline (see RunCheckpoint) */
+    onStepCompleted(position: number[], step: PipelineStep | undefined): Promise<void>;
+}
+
+/**
+ * Executes a declarative workflow pipeline step by step
+ * All communication with the agent goes through the given ChatBackend.
+ */
+export class PipelineExecutor {
+    private lastPromptMessage: string | undefined;
+    private lastPromptSentAt = 0;
+    private lastPromptCaptured = false;
+    /** Prompts reporting problems, sent instead of the loop's continue prompt */
+    private pendingFeedback: string[] = [];
+    private verificationResults: VerificationResult[] = [];
+    private diagnosticsTracker: DiagnosticsTracker | undefined;
+    private lastStepId: string | undefined;
+    private checklistStatus: ChecklistStatus | undefined;
+    private lastResponse: ChatResponse | undefined;
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly pipeline: WorkflowPipeline,
+        private readonly hooks: PipelineHooks,
+        private readonly backend: ChatBackend
+    ) { }
+
+    /**
+     * Runs the pipeline from its first step, or after the last completed step of an interrupted run
+     * @param token Cancellation token of the run
+     * @param resumeAfter Position of the last completed step to resume after
+     */
+    public async run(token: vscode.CancellationToken, resumeAfter?: number[]): Promise<void> {
+        await this.track(() => this.executeSteps(this.pipeline.steps, false, token, [], resumeAfter));
+        this.assertVerificationPassed();
+    }
+
+    /**
+     * Starts another iteration of the pipeline's development loop
+     * @param token Cancellation token of the run
+     * @throws ConfigurationError if the pipeline has no loop step
+     */
+    public async continueDevelopment(token: vscode.CancellationToken): Promise<void> {
+        const loopIndex = this.pipeline.steps.findIndex(step => step.type === 'loop');
+        if (loopIndex === -1) {
+            throw new ConfigurationError('The workflow pipeline has no loop step to continue');
+        }
+        const loop = this.pipeline.steps[loopIndex] as LoopStep;
+
+        await this.hooks.checkContinue(token);
+        await this.track(async () => {
+            await this.startNextIteration(loop, WorkflowState.SendingTask, token, [loopIndex]);
+            await this.executeLoop(loop, token, [loopIndex]);
+        });
+        this.assertVerificationPassed();
+    }
+
+    /**
+     * Gets the checklist status the agent reported last, if it could be read
+     */
+    public getChecklistStatus(): ChecklistStatus | undefined {
+        return this.checklistStatus && { ...this.checklistStatus };
+    }
+
+    /**
+     * Gets the results of the last verify step
+     */
+    public getVerificationResults(): VerificationResult[] {
+        return [...this.verificationResults];
+    }
+
+    /**
+     * Executes a list of steps in order
+     * @param steps The steps to execute
+     * @param inLoop Whether the steps belong to a loop, which adds the iteration to status messages
+     * @param token Cancellation token of the run
+     * @param path Position of the list in the pipeline
+     * @param resumeAfter Position, relative to the list, of the last completed step to resume after
+     */
+    private async executeSteps(
+        steps: PipelineStep[],
+        inLoop: boolean,
+        token: vscode.CancellationToken,
+        path: number[],
+        resumeAfter?: number[]
+    ): Promise<void> {
+        // Skip the steps that already completed; a nested position resumes inside that step
+        let startIndex = 0;
+        let resumeInside: number[] | undefined;
+        if (resumeAfter && resumeAfter.length > 0) {
+            startIndex = resumeAfter.length === 1 ? resumeAfter[0] + 1 : resumeAfter[0];
+            resumeInside = resumeAfter.length > 1 ? resumeAfter.slice(1) : undefined;
+        }
+
+        for (let index = startIndex; index < steps.length; index++) {
+            const step = steps[index];
+            const position = [...path, index];
+            await this.hooks.checkContinue(token);
+
+            if (!this.isEnabled(step)) {
+                continue;
+            }
+
+            if (step.state) {
+                this.hooks.setState(step.state, this.formatMessage(step.message, inLoop));
+            }
+
+            if (step.type === 'loop') {
+                await this.executeLoop(step, token, position, index === startIndex ? resumeInside : undefined);
+            } else {
+                await this.executeStep(step, token);
+                await this.applyWait(step.wait, token);
+            }
+
+            this.lastStepId = step.id;
+            await this.hooks.onStepCompleted(position, step);
+        }
+    }
+
+    /**
+     * Dispatches a single step to its implementation
+     */
+    private async executeStep(step: PipelineStep, token: vscode.CancellationToken): Promise<void> {
+        const backgroundMode = this.hooks.isBackgroundMode();
+
+        switch (step.type) {
+            case 'openChat':
+                await this.backend.open(!backgroundMode);
+                break;
+
+            case 'setAgentMode': {
+                const agentMode = this.hooks.getSetting<AgentMode>('agentMode') || 'Agent';
+                await this.backend.setMode(agentMode);
+                await this.backend.send(`I'll be working in ${agentMode} mode for this task.`, backgroundMode);
+                break;
+            }
+
+            case 'selectModel':
+                await this.selectModel();
+                break;
+
+            case 'sendTask':
+                await this.backend.send(this.hooks.getTaskDescription(), backgroundMode);
+                break;
+
+            case 'createBranch': {
+                const { branchName, repository } = await createAndCheckoutBranch({
+                    taskDescription: this.hooks.getTaskDescription(),
+                    taskType: this.hooks.getSetting<TaskType | 'auto'>('taskType'),
+                    template: this.hooks.getSetting<string>('branchNameTemplate')
+                });
+                await this.hooks.onBranchCreated(branchName, repository.rootUri.fsPath);
+                await this.backend.send(`Created new branch \`${branchName}\` for this task. Please click Continue when ready.`, backgroundMode);
+                break;
+            }
+
+            case 'prompt':
+                await this.sendPrompt(step);
+                break;
+
+            case 'verify':
+                await this.verify(step, token);
+                break;
+
+            case 'checkDiagnostics':
+                await this.checkDiagnostics(token);
+                break;
+
+            case 'loop':
+                // Loops are run by executeSteps, which tracks their position
+                break;
+        }
+    }
+
+    /**
+     * Runs a loop step until its exit condition is met
+     * @param loop The loop step
+     * @param token Cancellation token of the run
+     * @param path Position of the loop in the pipeline
+     * @param resumeAfter Position, relative to the loop, of the last completed step to resume after
+     */
+    private async executeLoop(
+        loop: LoopStep,
+        token: vscode.CancellationToken,
+        path: number[],
+        resumeAfter?: number[]
+    ): Promise<void> {
+        while (true) {
+            await this.executeSteps(loop.steps, true, token, path, resumeAfter);
+            resumeAfter = undefined;
+            await this.hooks.onIterationCompleted(this.lastStepId);
+            if (this.hooks.getSetting<boolean>('reviewGate')) {
+                await this.review(token);
+            }
+
+            if (loop.until === 'once') {
+                return;
+            }
+
+            // Iterations are numbered from 0, so the current pass is iteration + 1
+            const maxIterations = loop.maxIterations ?? this.hooks.getSetting<number>('maxIterations') ?? 5;
+            let continueToNextIteration = this.hooks.consumeContinueRequest() || this.pendingFeedback.length > 0;
+            if (!continueToNextIteration) {
+                // Another iteration unless every checklist item is marked ✅
+                this.checklistStatus = await readChecklistStatus(
+                    this.backend, this.lastResponse, this.lastPromptMessage, this.lastPromptSentAt
+                );
+                continueToNextIteration = !this.checklistStatus || !isChecklistComplete(this.checklistStatus);
+            }
+            if (!continueToNextIteration) {
+                return;
+            }
+            if (this.hooks.getIteration() + 1 >= maxIterations) {
+                vscode.window.showWarningMessage(`Marco AI: Work is still incomplete after ${maxIterations} iterations. Stopping.`);
+                return;
+            }
+
+            await this.hooks.checkContinue(token);
+            await this.startNextIteration(loop, loop.state || WorkflowState.ContinuingIteration, token, path);
+        }
+    }
+
+    /**
+     * Increments the iteration and sends the loop's continue prompt,
+     * or the pending feedback about failed checks instead
+     */
+    private async startNextIteration(
+        loop: LoopStep,
+        state: WorkflowState,
+        token: vscode.CancellationToken,
+        path: number[]
+    ): Promise<void> {
+        // Numbered from 1 wherever the user sees it
+        const iteration = this.hooks.nextIteration() + 1;
+        // Problems are attributed to the iteration in which they appear
+        this.diagnosticsTracker?.reset();
+        this.hooks.setState(state, `Starting iteration #${iteration}`);
+
+        const feedback = this.pendingFeedback.splice(0);
+        if (feedback.length > 0) {
+            await this.sendMessage(feedback.join('\n\n---\n\n'));
+        } else if (loop.continuePrompt) {
+            await this.sendPrompt({ type: 'prompt', prompt: loop.continuePrompt });
+        }
+
+        await this.applyWait(loop.wait, token);
+
+        // The next step is the first step of the loop
+        await this.hooks.onStepCompleted([...path, -1], undefined);
+    }
+
+    /**
+     * Selects the first available preferred model and tells the agent about the priority order
+     */
+    private async selectModel(): Promise<void> {
+        const preferredModels = this.hooks.getSetting<string[]>('preferredModels') ||
+            ["Claude 3.7 Sonnet", "Gemini 2.5", "GPT 4.1"];
+
+        if (preferredModels.length === 0) {
+            return;
+        }
+
+        for (const model of preferredModels) {
+            if (await this.backend.selectModel(model)) {
+                break;
+            }
+        }
+
+        const modelPriorityMessage = `I'll be using the most capable model available in this priority order: ${preferredModels.join(' > ')}.`;
+        await this.backend.send(modelPriorityMessage, this.hooks.isBackgroundMode());
+    }
+
+    /**
+     * Sends a prompt step's file or inline text to the chat
+     * The content is rendered as a template (see promptTemplate.ts) before it is sent.
+     */
+    private async sendPrompt(step: PromptStep): Promise<void> {
+        const template = step.prompt
+            ? await loadPromptFile(this.context, step.prompt)
+            : step.text || '';
+        const content = renderPrompt(template, await this.getPromptVariables());
+        await this.sendMessage(content, step.mention);
+    }
+
+    /**
+     * Sends a rendered prompt to the chat
+     * @param content The prompt
+     * @param mentionOverride Chat mention to use instead of the default (empty string for none)
+     */
+    private async sendMessage(content: string, mentionOverride?: string): Promise<void> {
+        // With response capture enabled, prompts go through @marco so the replies are recorded
+        const captureResponses = this.hooks.getSetting<boolean>('captureResponses') ?? true;
+        const mention = mentionOverride ?? (captureResponses ? '@marco' : '@agent');
+        const message = mention ? `${mention} ${content}` : content;
+        this.lastPromptSentAt = now();
+        await this.backend.send(message, this.hooks.isBackgroundMode());
+        this.lastPromptMessage = message;
+        this.lastPromptCaptured = mention === '@marco';
+    }
+
+    /**
+     * Collects the values available to prompt templates
+     * Boolean `marco.*` settings are exposed under their own name for use in conditionals.
+     */
+    private async getPromptVariables(): Promise<PromptVariables> {
+        const activeDocument = vscode.window.activeTextEditor?.document;
+
+        return {
+            needToWriteTest: !!this.hooks.getSetting<boolean>('needToWriteTest'),
+            initCreateBranch: !!this.hooks.getSetting<boolean>('initCreateBranch'),
+            taskDescription: this.hooks.getTaskDescription(),
+            // Numbered from 1, like the review prompts and checkpoint commits
+            iteration: this.hooks.getIteration() + 1,
+            branchName: this.hooks.getBranchName(),
+            agentMode: this.hooks.getSetting<string>('agentMode') || 'Agent',
+            activeFile: activeDocument && !activeDocument.isUntitled
+                ? vscode.workspace.asRelativePath(activeDocument.uri)
+                : undefined,
+            changedFiles: getChangedFiles(this.hooks.getRepoRoot()).map(file => `- ${file}`).join('\n'),
+            checklistItems: await loadPromptFile(this.context, 'checklist')
+        };
+    }
+
+    /**
+     * Runs the verification commands and queues their failures as feedback for the agent
+     */
+    private async verify(step: VerifyStep, token: vscode.CancellationToken): Promise<void> {
+        const commands = step.commands ?? this.hooks.getSetting<VerificationCommand[]>('verificationCommands') ?? [];
+        if (commands.length === 0) {
+            this.verificationResults = [];
+            return;
+        }
+
+        this.verificationResults = await runVerificationCommands(commands, token);
+        if (this.verificationResults.every(result => result.passed)) {
+            return;
+        }
+
+        const template = await loadPromptFile(this.context, 'verification_failed');
+        this.pendingFeedback.push(renderPrompt(template, {
+            ...await this.getPromptVariables(),
+            verificationResults: formatVerificationResults(this.verificationResults)
+        }));
+    }
+
+    /**
+     * Sends the new problems in the files touched during the iteration and waits for the agent to fix them
+     */
+    private async checkDiagnostics(token: vscode.CancellationToken): Promise<void> {
+        const threshold = toSeverityThreshold(this.hooks.getSetting<DiagnosticsThreshold>('diagnosticsSeverity'));
+        if (threshold === undefined || !this.diagnosticsTracker) {
+            return;
+        }
+
+        // Language servers mostly report problems for open documents
+        const touchedFiles = this.diagnosticsTracker.getTouchedFiles().slice(0, MAX_DOCUMENTS_TO_OPEN);
+        await Promise.all(touchedFiles.map(uri => vscode.workspace.openTextDocument(uri).then(undefined, () => undefined)));
+        await sleep(DIAGNOSTICS_SETTLE_MS, token);
+
+        const maxItems = this.hooks.getSetting<number>('maxDiagnostics') ?? 20;
+        const { problems, total } = this.diagnosticsTracker.collectNewProblems(threshold, maxItems);
+        if (problems.length === 0) {
+            return;
+        }
+
+        const template = await loadPromptFile(this.context, 'fix_diagnostics');
+        await this.sendMessage(renderPrompt(template, {
+            ...await this.getPromptVariables(),
+            diagnostics: formatDiagnostics(problems, total),
+            diagnosticsCount: total
+        }));
+        await this.applyWait({ agentDone: true }, token);
+    }
+
+    /**
+     * Waits for the user to review the iteration and queues their feedback for the agent
+     */
+    private async review(token: vscode.CancellationToken): Promise<void> {
+        const decision = await this.hooks.requestReview(token);
+        if (decision.action === 'approve') {
+            return;
+        }
+
+        const template = await loadPromptFile(this.context, 'review_feedback');
+        this.pendingFeedback.push(renderPrompt(template, {
+            ...await this.getPromptVariables(),
+            reverted: decision.action === 'revert',
+            reviewFeedback: decision.feedback
+        }));
+    }
+
+    /**
+     * Tracks the files touched by the agent and the agent's replies while the body runs
+     */
+    private async track(body: () => Promise<void>): Promise<void> {
+        this.diagnosticsTracker = new DiagnosticsTracker();
+        const responses = this.backend.onResponse(response => { this.lastResponse = response; });
+        try {
+            await body();
+        } finally {
+            responses.dispose();
+            this.diagnosticsTracker.dispose();
+            this.diagnosticsTracker = undefined;
+        }
+    }
+
+    /**
+     * Fails the run if the last verification did not pass
+     * @throws VerificationFailedError naming the failed checks
+     */
+    private assertVerificationPassed(): void {
+        const failed = this.verificationResults.filter(result => !result.passed);
+        if (failed.length > 0) {
+            throw new VerificationFailedError(failed.map(result => result.name));
+        }
+    }
+
+    /**
+     * Applies a step's wait condition
+     */
+    private async applyWait(wait: WaitCondition | undefined, token: vscode.CancellationToken): Promise<void> {
+        if (wait?.delayMs) {
+            await sleep(wait.delayMs, token);
+        }
+        if (wait?.agentDone) {
+            await waitForAgentCompletion(this.backend, wait.timeoutMs, {
+                expectResponse: this.lastPromptCaptured,
+                // The reply may arrive while the prompt is still being sent
+                sentAt: this.lastPromptSentAt,
+                getLastResponse: () => this.lastResponse,
+                quietPeriodMs: wait.quietPeriodMs,
+                token,
+                checkContinue: () => this.hooks.checkContinue(token)
+            });
+        }
+        await this.hooks.checkContinue(token);
+    }
+
+    /**
+     * Evaluates a step's `when` setting gate
+     */
+    private isEnabled(step: PipelineStep): boolean {
+        if (!step.when) {
+            return true;
+        }
+
+        const negate = step.when.startsWith('!');
+        const key = negate ? step.when.slice(1) : step.when;
+        const value = !!this.hooks.getSetting<boolean>(key);
+        return negate ? !value : value;
+    }
+
+    /**
+     * Appends the iteration number (from 1) to status messages of looping steps after the first iteration
+     */
+    private formatMessage(message: string | undefined, inLoop: boolean): string | undefined {
+        const iteration = this.hooks.getIteration();
+        if (!message || !inLoop || iteration === 0) {
+            return message;
+        }
+        return `${message} (iteration #${iteration + 1})`;
+    }
+
+}
+
+/**
+ * Reads the checklist status from the agent's reply to the last prompt of the iteration
+ * (normally `check_checklist`). The reply reported by the backend is preferred;
+ * the backend's transcript is the fallback.
+ * @param backend The chat the prompt was sent to
+ * @param lastResponse The last reply the backend reported
+ * @param checklistPrompt The last prompt sent in the iteration
+ * @param sentAt When that prompt was sent (ms since epoch)
+ * @returns The status, or undefined if the reply could not be read
+ */
+async function readChecklistStatus(
+    backend: ChatBackend,
+    lastResponse: ChatResponse | undefined,
+    checklistPrompt: string | undefined,
+    sentAt: number
+): Promise<ChecklistStatus | undefined> {
+    let reply = lastResponse && lastResponse.timestamp >= sentAt ? lastResponse.text : undefined;
+
+    if (reply === undefined) {
+        const transcript = await backend.readTranscript();
+        if (!transcript) {
+            logger.warn('Could not read the agent reply to the checklist; assuming the checklist is incomplete.');
+            return undefined;
+        }
+        reply = checklistPrompt ? extractReply(transcript, checklistPrompt) : transcript;
+    }
+
+    const status = parseChecklistStatus(reply);
+    logger.info(`Checklist status: ${status.complete} complete, ${status.partial} partial, ${status.incomplete} incomplete`);
+
+    return status;
+}
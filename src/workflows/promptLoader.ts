@@ -0,0 +1,144 @@
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { logger } from '../utils/logger';
+
+/**
+ * Location of the workspace prompt overrides, relative to the workspace root
+ */
+export const WORKSPACE_PROMPTS_DIR = '.marco/prompts';
+
+/**
+ * File extensions tried for a prompt name, in order
+ */
+const PROMPT_EXTENSIONS = ['.txt', '.md'];
+
+/**
+ * Where a prompt was found on the search path
+ */
+export type PromptSource = 'workspace' | 'user' | 'bundled';
+
+/**
+ * A prompt file found on the search path
+ */
+export interface ResolvedPrompt {
+    uri: vscode.Uri;
+    source: PromptSource;
+}
+
+/**
+ * Gets the directories searched for prompt files, in order of precedence:
+ * the workspace `.marco/prompts` folder, the user prompts folder
+ * (`marco.userPromptsDirectory`, default `~/.marco/prompts`), then the bundled prompts
+ * @param context The VS Code extension context
+ */
+export function getPromptSearchPath(context: vscode.ExtensionContext): { dir: vscode.Uri; source: PromptSource }[] {
+    const searchPath: { dir: vscode.Uri; source: PromptSource }[] = [];
+
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (workspaceFolder) {
+        searchPath.push({ dir: vscode.Uri.joinPath(workspaceFolder.uri, WORKSPACE_PROMPTS_DIR), source: 'workspace' });
+    }
+
+    const userDirectory = vscode.workspace.getConfiguration('marco').get<string>('userPromptsDirectory');
+    const userDir = userDirectory
+        ? vscode.Uri.file(userDirectory.replace(/^~(?=$|[\\/])/, os.homedir()))
+        : vscode.Uri.joinPath(vscode.Uri.file(os.homedir()), WORKSPACE_PROMPTS_DIR);
+    searchPath.push({ dir: userDir, source: 'user' });
+
+    searchPath.push({ dir: getBundledPromptsDir(context), source: 'bundled' });
+    return searchPath;
+}
+
+/**
+ * Finds a prompt file on the search path
+ * @param context The VS Code extension context
+ * @param fileName The name of the prompt file (without extension)
+ * @returns The first matching file, or undefined if no directory has it
+ */
+export async function resolvePromptFile(context: vscode.ExtensionContext, fileName: string): Promise<ResolvedPrompt | undefined> {
+    for (const { dir, source } of getPromptSearchPath(context)) {
+        for (const extension of PROMPT_EXTENSIONS) {
+            const uri = vscode.Uri.joinPath(dir, fileName + extension);
+            if (await fileExists(uri)) {
+                return { uri, source };
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Loads a prompt file from the prompt search path (see getPromptSearchPath)
+ * @param context The VS Code extension context
+ * @param fileName The name of the prompt file (without extension)
+ * @returns The content of the prompt file
+ */
+export async function loadPromptFile(context: vscode.ExtensionContext, fileName: string): Promise<string> {
+    const resolved = await resolvePromptFile(context, fileName);
+    if (!resolved) {
+        logger.error(`Prompt ${fileName} (.txt or .md) was not found on the prompt search path`);
+        // Return a specific error message that can be sent to chat if needed
+        return `Error: Could not load prompt file '${fileName}'. Please check extension installation and file paths.`;
+    }
+
+    try {
+        const contentBytes = await vscode.workspace.fs.readFile(resolved.uri);
+        logger.info(`Loaded ${resolved.source} prompt from ${resolved.uri.fsPath}`);
+        return new TextDecoder().decode(contentBytes);
+    } catch (error) {
+        logger.error(`Failed to load prompt ${fileName} from ${resolved.uri.fsPath}:`, error);
+        return `Error: Could not load prompt file '${fileName}'. Please check extension installation and file paths.`;
+    }
+}
+
+/**
+ * Lists the prompt files bundled with the extension
+ * @param context The VS Code extension context
+ * @returns The file names of the bundled prompts, with extension
+ */
+export async function listBundledPrompts(context: vscode.ExtensionContext): Promise<string[]> {
+    const entries = await vscode.workspace.fs.readDirectory(getBundledPromptsDir(context));
+    return entries
+        .filter(([name, type]) => type === vscode.FileType.File && PROMPT_EXTENSIONS.some(ext => name.endsWith(ext)))
+        .map(([name]) => name)
+        .sort();
+}
+
+/**
+ * Copies a bundled prompt into the workspace `.marco/prompts` folder, where it overrides the bundled one
+ * @param context The VS Code extension context
+ * @param fileName The file name of the bundled prompt, with extension
+ * @param overwrite Whether to replace an existing workspace copy
+ * @returns The workspace copy
+ * @throws Error if no workspace folder is open
+ */
+export async function copyPromptToWorkspace(
+    context: vscode.ExtensionContext,
+    fileName: string,
+    overwrite = false
+): Promise<vscode.Uri> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        throw new Error('Open a workspace folder to customize prompts');
+    }
+
+    const target = vscode.Uri.joinPath(workspaceFolder.uri, WORKSPACE_PROMPTS_DIR, fileName);
+    if (overwrite || !await fileExists(target)) {
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(workspaceFolder.uri, WORKSPACE_PROMPTS_DIR));
+        await vscode.workspace.fs.copy(vscode.Uri.joinPath(getBundledPromptsDir(context), fileName), target, { overwrite: true });
+    }
+    return target;
+}
+
+function getBundledPromptsDir(context: vscode.ExtensionContext): vscode.Uri {
+    return vscode.Uri.joinPath(context.extensionUri, 'src', 'prompts');
+}
+
+async function fileExists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,49 @@
+/**
+ * Values available to prompt templates
+ * Undefined values render as an empty string and count as false in conditionals.
+ */
+export type PromptVariables = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Matches `${if name}...${else}...${endif}` blocks (not nested); `name` may be negated with `!`.
+ * A line break right after a tag is part of the tag, so tags on their own line leave no blank line.
+ */
+const CONDITIONAL_PATTERN = /\$\{if\s+(!?)(\w+)\}\r?\n?([\s\S]*?)(?:\$\{else\}\r?\n?([\s\S]*?))?\$\{endif\}\r?\n?/g;
+
+/**
+ * Matches `${name}` placeholders
+ */
+const VARIABLE_PATTERN = /\$\{(\w+)\}/g;
+
+/**
+ * Renders a prompt template
+ * Supports `${name}` placeholders and simple `${if name}` / `${else}` / `${endif}` conditionals.
+ * Placeholders for unknown variables are left untouched so literal `${...}` text survives.
+ * @param template The prompt template
+ * @param variables The values to substitute
+ * @returns The rendered prompt
+ */
+export function renderPrompt(template: string, variables: PromptVariables): string {
+    const withConditionals = template.replace(
+        CONDITIONAL_PATTERN,
+        (_match, negate: string, name: string, whenTrue: string, whenFalse: string | undefined) => {
+            const condition = isTruthy(variables[name]) !== (negate === '!');
+            return condition ? whenTrue : (whenFalse ?? '');
+        }
+    );
+
+    return withConditionals.replace(VARIABLE_PATTERN, (match, name: string) => {
+        if (!(name in variables)) {
+            return match;
+        }
+        const value = variables[name];
+        return value === undefined ? '' : String(value);
+    });
+}
+
+function isTruthy(value: string | number | boolean | undefined): boolean {
+    if (typeof value === 'string') {
+        return value.trim().length > 0;
+    }
+    return !!value;
+}
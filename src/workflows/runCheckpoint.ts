@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+
+/**
+ * Workspace state key under which the checkpoint of the active run is stored
+ */
+const CHECKPOINT_KEY = 'marco.activeRun';
+
+/**
+ * Progress of a workflow run, saved after every completed step
+ */
+export interface RunCheckpoint {
+    /** Identifier of the run */
+    runId: string;
+    /** The task the run is working on */
+    taskDescription: string;
+    /** Branch created for the run, if any */
+    branchName?: string;
+    /** Root folder of the repository the branch was created in; git helpers fall back to the first repository */
+    repoRoot?: string;
+    /** `marco.*` settings overridden for this run */
+    settingsOverrides?: Record<string, unknown>;
+    /** Current iteration of the development loop */
+    iteration: number;
+    /**
+     * Position of the last completed step in the pipeline, as dot-separated indices
+     * (e.g. `5.2` is the third step of the loop at index 5). A last index of `-1`
+     * means the loop's continue prompt was sent and its first step is next.
+     */
+    lastCompletedStep?: string;
+    /** Identifier of the last completed step, for display */
+    lastCompletedStepId?: string;
+    /** When the run started (ms since epoch) */
+    startedAt: number;
+    /** When the checkpoint was last written (ms since epoch) */
+    updatedAt: number;
+}
+
+/**
+ * Saves the checkpoint of the active run
+ * @param context The VS Code extension context
+ * @param checkpoint The run progress to save
+ */
+export async function saveCheckpoint(context: vscode.ExtensionContext, checkpoint: RunCheckpoint): Promise<void> {
+    await context.workspaceState.update(CHECKPOINT_KEY, { ...checkpoint, updatedAt: Date.now() });
+}
+
+/**
+ * Loads the checkpoint of a run that did not finish
+ * @param context The VS Code extension context
+ * @returns The checkpoint, or undefined if the last run finished
+ */
+export function loadCheckpoint(context: vscode.ExtensionContext): RunCheckpoint | undefined {
+    return context.workspaceState.get<RunCheckpoint>(CHECKPOINT_KEY);
+}
+
+/**
+ * Removes the checkpoint once a run has finished
+ * @param context The VS Code extension context
+ */
+export async function clearCheckpoint(context: vscode.ExtensionContext): Promise<void> {
+    await context.workspaceState.update(CHECKPOINT_KEY, undefined);
+}
+
+/**
+ * Parses a step position saved in a checkpoint
+ * @param position Dot-separated step indices
+ * @returns The indices, or undefined if the position is missing or malformed
+ */
+export function parseStepPosition(position: string | undefined): number[] | undefined {
+    if (!position) {
+        return undefined;
+    }
+    const indices = position.split('.').map(Number);
+    return indices.every(Number.isInteger) ? indices : undefined;
+}
@@ -0,0 +1,257 @@
+import * as vscode from 'vscode';
+import { TranscriptStore, TranscriptTurn } from '../chat/transcript';
+import { StatusManager, WorkflowState } from '../statusManager';
+import { formatDuration } from '../utils/helpers';
+import { WorkflowRunner } from './workflowRunner';
+
+/**
+ * Workspace state key under which the run history is stored
+ */
+const HISTORY_KEY = 'marco.runHistory';
+
+/** Number of runs kept in the history */
+const MAX_RUNS = 50;
+
+/**
+ * Outcome of a run; `interrupted` runs were still going when the window closed
+ */
+export type RunStatus = 'running' | 'completed' | 'failed' | 'stopped' | 'interrupted';
+
+/**
+ * A workflow state the run went through
+ */
+export interface RunStateTransition {
+    state: WorkflowState;
+    message?: string;
+    timestamp: number;
+}
+
+/**
+ * A message Marco sent to the chat during the run
+ */
+export interface RunMessage {
+    text: string;
+    timestamp: number;
+}
+
+/**
+ * A past or current workflow run
+ */
+export interface RunRecord {
+    runId: string;
+    taskDescription: string;
+    /** `marco.*` settings the run overrode */
+    settingsOverrides?: Record<string, unknown>;
+    status: RunStatus;
+    branchName?: string;
+    /** Number of iterations started */
+    iterations: number;
+    startedAt: number;
+    endedAt?: number;
+    transitions: RunStateTransition[];
+    messages: RunMessage[];
+}
+
+type HistoryListener = (runs: RunRecord[]) => void;
+
+/**
+ * Keeps the history of workflow runs, with the states each run went through and the messages it sent
+ */
+export class RunHistory {
+    private static instance: RunHistory;
+    private context: vscode.ExtensionContext | undefined;
+    private runs: RunRecord[] = [];
+    private historyListeners: HistoryListener[] = [];
+
+    private constructor() { }
+
+    /**
+     * Get the singleton instance of RunHistory
+     */
+    public static getInstance(): RunHistory {
+        if (!RunHistory.instance) {
+            RunHistory.instance = new RunHistory();
+        }
+        return RunHistory.instance;
+    }
+
+    /**
+     * Initialize the history with extension context and restore saved runs
+     * @param context The extension context
+     */
+    public initialize(context: vscode.ExtensionContext): void {
+        this.context = context;
+        this.runs = context.workspaceState.get<RunRecord[]>(HISTORY_KEY) || [];
+
+        // A run marked running was cut short by a reload
+        for (const run of this.runs) {
+            if (run.status === 'running') {
+                run.status = 'interrupted';
+                run.endedAt = run.transitions[run.transitions.length - 1]?.timestamp ?? run.startedAt;
+            }
+        }
+
+        context.subscriptions.push(
+            StatusManager.getInstance().onStateChanged((state, message) => this.onWorkflowStateChanged(state, message)),
+            TranscriptStore.getInstance().onDidRecordTurn(turn => this.onTurnRecorded(turn))
+        );
+    }
+
+    /**
+     * Get the runs, most recent first
+     */
+    public getRuns(): RunRecord[] {
+        return [...this.runs].reverse().map(run => ({ ...run }));
+    }
+
+    /**
+     * Get a run by its identifier
+     * @param runId The run
+     */
+    public getRun(runId: string): RunRecord | undefined {
+        const run = this.runs.find(r => r.runId === runId);
+        return run && { ...run };
+    }
+
+    /**
+     * Remove a run that is not in progress
+     * @param runId The run to remove
+     */
+    public async delete(runId: string): Promise<void> {
+        this.runs = this.runs.filter(run => run.runId !== runId || run.status === 'running');
+        await this.save();
+    }
+
+    /**
+     * Register a listener for history changes
+     * @param listener The callback function to be called when a run is added, updated or removed
+     */
+    public onHistoryChanged(listener: HistoryListener): vscode.Disposable {
+        this.historyListeners.push(listener);
+
+        // Return a disposable to remove the listener
+        return {
+            dispose: () => {
+                const index = this.historyListeners.indexOf(listener);
+                if (index !== -1) {
+                    this.historyListeners.splice(index, 1);
+                }
+            }
+        };
+    }
+
+    private onWorkflowStateChanged(state: WorkflowState, message?: string): void {
+        const runner = WorkflowRunner.getInstance();
+        const runId = runner.getRunId();
+        if (!runId) {
+            return;
+        }
+
+        let run = this.runs.find(r => r.runId === runId);
+        if (!run) {
+            if (state !== WorkflowState.Initializing) {
+                return;
+            }
+            run = {
+                runId,
+                taskDescription: runner.getTaskDescription() || '',
+                settingsOverrides: runner.getSettingsOverrides(),
+                status: 'running',
+                iterations: 1,
+                startedAt: Date.now(),
+                transitions: [],
+                messages: []
+            };
+            this.runs.push(run);
+            this.runs = this.runs.slice(-MAX_RUNS);
+        } else if (run.status !== 'running' && state === WorkflowState.Idle) {
+            // Leaving the final state of a run that already ended
+            return;
+        }
+
+        run.transitions.push({ state, message, timestamp: Date.now() });
+        run.status = toRunStatus(state);
+        run.endedAt = run.status === 'running' ? undefined : Date.now();
+        run.iterations = runner.getIteration() + 1;
+        run.branchName = runner.getBranchName();
+        this.save();
+    }
+
+    private onTurnRecorded(turn: TranscriptTurn): void {
+        const run = this.runs.find(r => r.runId === turn.runId);
+        if (!run || turn.role !== 'marco') {
+            return;
+        }
+        run.messages.push({ text: turn.text, timestamp: turn.timestamp });
+        this.save();
+    }
+
+    /**
+     * Persist the history and notify listeners
+     */
+    private async save(): Promise<void> {
+        const runs = this.getRuns();
+        for (const listener of this.historyListeners) {
+            listener(runs);
+        }
+        await this.context?.workspaceState.update(HISTORY_KEY, this.runs);
+    }
+}
+
+function toRunStatus(state: WorkflowState): RunStatus {
+    switch (state) {
+        case WorkflowState.Completed: return 'completed';
+        case WorkflowState.Error: return 'failed';
+        case WorkflowState.Idle: return 'stopped';
+        default: return 'running';
+    }
+}
+
+/**
+ * Gets how long a run took, or has been going so far
+ * @param run The run
+ */
+export function getRunDuration(run: RunRecord): number {
+    return (run.endedAt ?? Date.now()) - run.startedAt;
+}
+
+/**
+ * Formats a run as Markdown: overview, state timeline and the messages sent
+ * @param run The run to format
+ */
+export function formatRunAsMarkdown(run: RunRecord): string {
+    const lines = [
+        `# Marco AI Run ${run.runId}`,
+        '',
+        '## Task',
+        '',
+        run.taskDescription,
+        '',
+        '## Overview',
+        '',
+        `- Status: ${run.status}`,
+        `- Started: ${new Date(run.startedAt).toLocaleString()}`,
+        `- Duration: ${formatDuration(getRunDuration(run))}`,
+        `- Iterations: ${run.iterations}`
+    ];
+    if (run.branchName) {
+        lines.push(`- Branch: \`${run.branchName}\``);
+    }
+
+    lines.push('', '## Timeline', '');
+    for (const transition of run.transitions) {
+        const time = new Date(transition.timestamp).toLocaleTimeString();
+        lines.push(`- ${time} **${transition.state}**${transition.message ? `: ${transition.message}` : ''}`);
+    }
+
+    lines.push('', '## Messages');
+    for (const message of run.messages) {
+        lines.push('', `### ${new Date(message.timestamp).toLocaleTimeString()}`, '', '````text', message.text, '````');
+    }
+    if (run.messages.length === 0) {
+        lines.push('', 'No messages were sent.');
+    }
+
+    lines.push('');
+    return lines.join('\n');
+}
@@ -0,0 +1,257 @@
+import * as vscode from 'vscode';
+import { inferTaskType } from '../git/branchNaming';
+import { GitCheckpointStore } from '../git/checkpoints';
+import { FileChangeStats, getDiffStats, getRepository } from '../git/gitService';
+import { StatusManager, WorkflowState } from '../statusManager';
+import { formatDuration } from '../utils/helpers';
+import { logger } from '../utils/logger';
+import { isChecklistComplete } from './checklist';
+import { RunSummary, WorkflowRunner } from './workflowRunner';
+
+/**
+ * Location of the run reports, relative to the workspace root
+ */
+export const REPORTS_DIR = '.marco/reports';
+
+/** Maximum length of a generated pull request title */
+const MAX_TITLE_LENGTH = 72;
+
+/**
+ * Time spent in one workflow state
+ */
+export interface StateDuration {
+    state: WorkflowState;
+    durationMs: number;
+}
+
+/**
+ * A pull request title and description draft
+ */
+export interface PullRequestDraft {
+    title: string;
+    body: string;
+}
+
+/**
+ * Everything a run report is built from
+ */
+export interface RunReportData {
+    summary: RunSummary;
+    finishedAt: number;
+    stateDurations: StateDuration[];
+    files: FileChangeStats[];
+}
+
+/**
+ * Writes a Markdown report to `.marco/reports/<run-id>.md` when a run completes
+ * The completion notification offers to open it (see notifications.ts).
+ */
+export class RunReporter {
+    private static instance: RunReporter;
+    private lastReport: { uri: vscode.Uri; draft: PullRequestDraft } | undefined;
+    private pendingReport: Promise<void> | undefined;
+
+    private constructor() { }
+
+    /**
+     * Get the singleton instance of RunReporter
+     */
+    public static getInstance(): RunReporter {
+        if (!RunReporter.instance) {
+            RunReporter.instance = new RunReporter();
+        }
+        return RunReporter.instance;
+    }
+
+    /**
+     * Start recording state transitions and writing reports
+     * @param context The extension context
+     */
+    public initialize(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            StatusManager.getInstance().onStateChanged(state => this.onWorkflowStateChanged(state))
+        );
+    }
+
+    /**
+     * Get the last written report and its pull request draft
+     * Waits for a report that is still being written.
+     */
+    public async getLastReport(): Promise<{ uri: vscode.Uri; draft: PullRequestDraft } | undefined> {
+        await this.pendingReport;
+        return this.lastReport;
+    }
+
+    private onWorkflowStateChanged(state: WorkflowState): void {
+        if (state !== WorkflowState.Completed) {
+            return;
+        }
+
+        const summary = WorkflowRunner.getInstance().getRunSummary();
+        const enabled = vscode.workspace.getConfiguration('marco').get<boolean>('writeReports') ?? true;
+        if (!summary || !enabled) {
+            return;
+        }
+
+        const finishedAt = Date.now();
+        const phaseDurations = StatusManager.getInstance().getPhaseDurations(summary.runId);
+        const stateDurations = [...phaseDurations].map(([phase, durationMs]) => ({ state: phase, durationMs }));
+        this.pendingReport = this.writeReport(summary, finishedAt, stateDurations).catch(error => {
+            logger.error('Failed to write the run report:', error);
+            vscode.window.showWarningMessage(`Marco AI: Could not write the run report: ${error instanceof Error ? error.message : error}`);
+        });
+    }
+
+    private async writeReport(summary: RunSummary, finishedAt: number, stateDurations: StateDuration[]): Promise<void> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            return;
+        }
+
+        const data: RunReportData = { summary, finishedAt, stateDurations, files: await getRunChanges(summary.runId, summary.repoRoot) };
+        const draft = buildPullRequestDraft(data);
+        const uri = vscode.Uri.joinPath(workspaceFolder.uri, REPORTS_DIR, `${summary.runId}.md`);
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(workspaceFolder.uri, REPORTS_DIR));
+        await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(buildRunReport(data, draft)));
+        this.lastReport = { uri, draft };
+        logger.info(`Run report saved to ${uri.fsPath}`);
+    }
+}
+
+/**
+ * Builds the Markdown report of a run
+ * @param data The run data
+ * @param draft The pull request draft to include
+ */
+export function buildRunReport(data: RunReportData, draft: PullRequestDraft): string {
+    const { summary } = data;
+    const lines = [
+        `# Marco AI Run Report: ${summary.runId}`,
+        '',
+        '## Task',
+        '',
+        summary.taskDescription,
+        '',
+        '## Overview',
+        '',
+        `- Started: ${new Date(summary.startedAt).toLocaleString()}`,
+        `- Finished: ${new Date(data.finishedAt).toLocaleString()}`,
+        `- Total time: ${formatDuration(data.finishedAt - summary.startedAt)}`,
+        `- Iterations: ${summary.iterations}`,
+        `- Branch: ${summary.branchName ? `\`${summary.branchName}\`` : 'none (worked on the current branch)'}`,
+        '',
+        '## Time per State',
+        '',
+        '| State | Duration |',
+        '| --- | --- |',
+        ...data.stateDurations.map(({ state, durationMs }) => `| ${state} | ${formatDuration(durationMs)} |`),
+        '',
+        '## Files Changed',
+        '',
+        ...formatFileChanges(data.files),
+        '',
+        '## Checklist',
+        '',
+        formatChecklist(summary),
+        '',
+        '## Verification',
+        '',
+        ...formatVerification(summary),
+        '',
+        '## Pull Request Draft',
+        '',
+        `**Title:** ${draft.title}`,
+        '',
+        '````markdown',
+        draft.body,
+        '````',
+        ''
+    ];
+    return lines.join('\n');
+}
+
+/**
+ * Drafts a pull request title and description for a run
+ * @param data The run data
+ */
+export function buildPullRequestDraft(data: RunReportData): PullRequestDraft {
+    const { summary } = data;
+    const firstLine = summary.taskDescription.trim().split(/\r?\n/)[0].replace(/[.\s]+$/, '');
+    const prefix = { feature: 'feat', bugfix: 'fix', refactor: 'refactor', improvement: 'perf' }[inferTaskType(firstLine)];
+    let title = `${prefix}: ${firstLine.charAt(0).toLowerCase()}${firstLine.slice(1)}`;
+    if (title.length > MAX_TITLE_LENGTH) {
+        title = `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`;
+    }
+
+    const body = [
+        '## Summary',
+        '',
+        summary.taskDescription.trim(),
+        '',
+        '## Changes',
+        '',
+        ...formatFileChanges(data.files),
+        '',
+        '## Verification',
+        '',
+        ...formatVerification(summary),
+        '',
+        `_Implemented in ${summary.iterations} iteration${summary.iterations === 1 ? '' : 's'} with Marco AI._`
+    ].join('\n');
+
+    return { title, body };
+}
+
+/**
+ * Lists the files changed by a run: since its start checkpoint, or the uncommitted changes
+ * @param runId The run
+ * @param runRepoRoot Root folder of the run's repository, see getRepository
+ */
+async function getRunChanges(runId: string, runRepoRoot?: string): Promise<FileChangeStats[]> {
+    const base = GitCheckpointStore.getInstance().getCheckpoints(runId).find(c => c.iteration === 0);
+    const repoRoot = base?.repoRoot ?? getRepository(runRepoRoot)?.rootUri.fsPath;
+    if (!repoRoot) {
+        return [];
+    }
+    try {
+        return await getDiffStats(repoRoot, base?.commit ?? 'HEAD');
+    } catch (error) {
+        logger.warn('Failed to collect the changed files for the run report:', error);
+        return [];
+    }
+}
+
+function formatFileChanges(files: FileChangeStats[]): string[] {
+    if (files.length === 0) {
+        return ['No file changes detected.'];
+    }
+    return files.map(file => {
+        if (file.untracked) {
+            return `- \`${file.path}\` (new, untracked)`;
+        }
+        if (file.added === undefined || file.deleted === undefined) {
+            return `- \`${file.path}\` (binary)`;
+        }
+        return `- \`${file.path}\` (+${file.added} −${file.deleted})`;
+    });
+}
+
+function formatChecklist(summary: RunSummary): string {
+    const status = summary.checklist;
+    if (!status) {
+        return 'The checklist status could not be read from the agent reply.';
+    }
+    const outcome = isChecklistComplete(status) ? 'All items complete' : 'Incomplete';
+    return `${outcome}: ${status.complete} ✅, ${status.partial} ⚠️, ${status.incomplete} ❌`;
+}
+
+function formatVerification(summary: RunSummary): string[] {
+    if (summary.verification.length === 0) {
+        return ['No verification commands were run.'];
+    }
+    return summary.verification.map(result => {
+        const outcome = result.passed ? 'passed' : `failed (exit code ${result.exitCode ?? 'none'})`;
+        return `- ${result.name}: ${outcome} in ${formatDuration(result.durationMs)}`;
+    });
+}
+
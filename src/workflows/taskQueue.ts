@@ -0,0 +1,286 @@
+import * as vscode from 'vscode';
+import { StatusManager, WorkflowState } from '../statusManager';
+import { generateUniqueId } from '../utils/helpers';
+import { logger } from '../utils/logger';
+import { WorkflowRunner } from './workflowRunner';
+
+/**
+ * Workspace state key under which the task queue is stored
+ */
+const QUEUE_KEY = 'marco.taskQueue';
+
+/** Delay between the end of one task and the start of the next (ms) */
+const DELAY_BETWEEN_TASKS = 2000;
+
+export type QueuedTaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'stopped' | 'skipped';
+
+/**
+ * A task waiting in (or processed by) the queue
+ */
+export interface QueuedTask {
+    id: string;
+    description: string;
+    status: QueuedTaskStatus;
+    /** Iteration budget of the task, defaults to `marco.maxIterations` */
+    maxIterations?: number;
+    /** Run that processed the task */
+    runId?: string;
+    /** Branch created for the task */
+    branchName?: string;
+    addedAt: number;
+    finishedAt?: number;
+}
+
+type QueueListener = (tasks: QueuedTask[]) => void;
+
+/**
+ * Runs several tasks back to back, each on its own branch and with its own iteration budget
+ */
+export class TaskQueue {
+    private static instance: TaskQueue;
+    private context: vscode.ExtensionContext | undefined;
+    private tasks: QueuedTask[] = [];
+    private processing = false;
+    private queueListeners: QueueListener[] = [];
+
+    private constructor() { }
+
+    /**
+     * Get the singleton instance of TaskQueue
+     */
+    public static getInstance(): TaskQueue {
+        if (!TaskQueue.instance) {
+            TaskQueue.instance = new TaskQueue();
+        }
+        return TaskQueue.instance;
+    }
+
+    /**
+     * Initialize the queue with extension context and restore saved tasks
+     * @param context The extension context
+     */
+    public initialize(context: vscode.ExtensionContext): void {
+        this.context = context;
+        this.tasks = context.workspaceState.get<QueuedTask[]>(QUEUE_KEY) || [];
+
+        // A task marked running was interrupted by a reload; run it again
+        for (const task of this.tasks) {
+            if (task.status === 'running') {
+                task.status = 'pending';
+            }
+        }
+
+        context.subscriptions.push(
+            StatusManager.getInstance().onStateChanged(state => this.onWorkflowStateChanged(state))
+        );
+    }
+
+    /**
+     * Get a copy of the queued tasks in order
+     */
+    public getTasks(): QueuedTask[] {
+        return this.tasks.map(task => ({ ...task }));
+    }
+
+    /**
+     * Whether the queue is processing its tasks
+     */
+    public isProcessing(): boolean {
+        return this.processing;
+    }
+
+    /**
+     * Add a task at the end of the queue
+     * @param description The task description
+     * @param maxIterations Optional iteration budget for the task
+     */
+    public async add(description: string, maxIterations?: number): Promise<QueuedTask> {
+        const task: QueuedTask = {
+            id: generateUniqueId(),
+            description,
+            status: 'pending',
+            maxIterations,
+            addedAt: Date.now()
+        };
+        this.tasks.push(task);
+        await this.save();
+        return task;
+    }
+
+    /**
+     * Remove a task that is not running
+     * @param id The task to remove
+     */
+    public async remove(id: string): Promise<void> {
+        this.tasks = this.tasks.filter(task => task.id !== id || task.status === 'running');
+        await this.save();
+    }
+
+    /**
+     * Move a task one position up or down
+     * @param id The task to move
+     * @param direction Where to move it
+     */
+    public async move(id: string, direction: 'up' | 'down'): Promise<void> {
+        const index = this.tasks.findIndex(task => task.id === id);
+        const target = direction === 'up' ? index - 1 : index + 1;
+        if (index === -1 || target < 0 || target >= this.tasks.length) {
+            return;
+        }
+
+        [this.tasks[index], this.tasks[target]] = [this.tasks[target], this.tasks[index]];
+        await this.save();
+    }
+
+    /**
+     * Skip a pending task, or stop the running one and move on to the next
+     * @param id The task to skip
+     */
+    public async skip(id: string): Promise<void> {
+        const task = this.tasks.find(t => t.id === id);
+        if (!task || (task.status !== 'pending' && task.status !== 'running')) {
+            return;
+        }
+
+        const wasRunning = task.status === 'running';
+        this.finishTask(task, 'skipped');
+        await this.save();
+
+        if (wasRunning) {
+            await WorkflowRunner.getInstance().stop();
+            this.scheduleNext();
+        }
+    }
+
+    /**
+     * Start processing the pending tasks
+     * @throws Error if a workflow is already running
+     */
+    public async start(): Promise<void> {
+        if (WorkflowRunner.getInstance().isRunning()) {
+            throw new Error('A workflow is already running. Stop it before starting the task queue.');
+        }
+
+        this.processing = true;
+        await this.runNext();
+    }
+
+    /**
+     * Stop processing after the current task
+     */
+    public stopProcessing(): void {
+        this.processing = false;
+        this.notifyQueueListeners();
+    }
+
+    /**
+     * Register a listener for queue changes
+     * @param listener The callback function to be called when the queue changes
+     */
+    public onQueueChanged(listener: QueueListener): vscode.Disposable {
+        this.queueListeners.push(listener);
+
+        // Return a disposable to remove the listener
+        return {
+            dispose: () => {
+                const index = this.queueListeners.indexOf(listener);
+                if (index !== -1) {
+                    this.queueListeners.splice(index, 1);
+                }
+            }
+        };
+    }
+
+    /**
+     * Start the next pending task, or stop processing if there is none
+     */
+    private async runNext(): Promise<void> {
+        const task = this.tasks.find(t => t.status === 'pending');
+        if (!this.processing || !this.context || !task) {
+            if (this.processing) {
+                vscode.window.showInformationMessage('Marco AI: Task queue finished.');
+            }
+            this.processing = false;
+            this.notifyQueueListeners();
+            return;
+        }
+
+        const runner = WorkflowRunner.getInstance();
+        const settingsOverrides: Record<string, unknown> = { initCreateBranch: true };
+        if (task.maxIterations !== undefined) {
+            settingsOverrides.maxIterations = task.maxIterations;
+        }
+
+        // Leaves the task pending if the run cannot start, e.g. when one was started by hand meanwhile
+        runner.start(this.context, { taskDescription: task.description, settingsOverrides });
+        task.status = 'running';
+        task.runId = runner.getRunId();
+        await this.save();
+    }
+
+    /**
+     * Records the outcome of the running task and moves on when its run ends
+     */
+    private onWorkflowStateChanged(state: WorkflowState): void {
+        const runner = WorkflowRunner.getInstance();
+        const task = this.tasks.find(t => t.status === 'running' && t.runId === runner.getRunId());
+        if (!task) {
+            return;
+        }
+
+        task.branchName = runner.getBranchName() || task.branchName;
+
+        switch (state) {
+            case WorkflowState.Completed:
+                this.finishTask(task, 'completed');
+                this.scheduleNext();
+                break;
+            case WorkflowState.Error:
+                this.finishTask(task, 'failed');
+                this.scheduleNext();
+                break;
+            case WorkflowState.Idle:
+                // Stopped by the user: pause the queue rather than starting the next task
+                this.finishTask(task, 'stopped');
+                this.processing = false;
+                break;
+            default:
+                return;
+        }
+
+        this.save();
+    }
+
+    private finishTask(task: QueuedTask, status: QueuedTaskStatus): void {
+        task.status = status;
+        task.finishedAt = Date.now();
+    }
+
+    /**
+     * Start the next task once the current run has settled
+     */
+    private scheduleNext(): void {
+        setTimeout(() => {
+            this.runNext().catch(error => {
+                logger.error('Failed to start the next queued task:', error);
+                this.processing = false;
+                this.notifyQueueListeners();
+            });
+        }, DELAY_BETWEEN_TASKS);
+    }
+
+    /**
+     * Persist the queue and notify listeners
+     */
+    private async save(): Promise<void> {
+        this.notifyQueueListeners();
+        await this.context?.workspaceState.update(QUEUE_KEY, this.tasks);
+    }
+
+    private notifyQueueListeners(): void {
+        const tasks = this.getTasks();
+        for (const listener of this.queueListeners) {
+            listener(tasks);
+        }
+    }
+}
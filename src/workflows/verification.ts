@@ -0,0 +1,354 @@
+import { ChildProcess, spawn } from 'child_process';
+import * as vscode from 'vscode';
+import { ConfigurationError, WorkflowCancelledError } from '../errors/workflow_errors';
+
+/**
+ * Task type of the tasks Marco creates to run verification commands
+ */
+const VERIFICATION_TASK_TYPE = 'marco';
+
+/** Default time a verification command may run (ms) */
+const DEFAULT_COMMAND_TIMEOUT = 600000;
+
+/** Amount of output kept per command; the tail is kept since errors are usually reported last */
+const MAX_OUTPUT_CHARS = 4000;
+
+/**
+ * A check run by a verify step: a VS Code task or a shell command
+ */
+export interface VerificationCommand {
+    /** Display name, defaults to the task label or the command line */
+    name?: string;
+    /** Label of a VS Code task, from tasks.json or a task provider (e.g. `npm: test`) */
+    task?: string;
+    /** Shell command run in the workspace root */
+    command?: string;
+    /** Time the command may run before it counts as failed (ms, default 10 minutes) */
+    timeoutMs?: number;
+}
+
+/**
+ * Outcome of a verification command
+ */
+export interface VerificationResult {
+    name: string;
+    passed: boolean;
+    /** Exit code of the process, undefined if it did not exit by itself */
+    exitCode: number | undefined;
+    /** Tail of the combined stdout and stderr */
+    output: string;
+    durationMs: number;
+}
+
+/**
+ * Runs verification commands one after another
+ * Every command runs, even after a failure, so the agent gets all problems at once.
+ * Commands run as VS Code tasks so their output is visible in the terminal panel.
+ * @param commands The commands to run
+ * @param token Cancellation token of the run
+ * @returns One result per command
+ * @throws WorkflowCancelledError if the token is cancelled
+ */
+export async function runVerificationCommands(
+    commands: VerificationCommand[],
+    token: vscode.CancellationToken
+): Promise<VerificationResult[]> {
+    const results: VerificationResult[] = [];
+    for (const command of commands) {
+        if (token.isCancellationRequested) {
+            throw new WorkflowCancelledError();
+        }
+        results.push(await runVerificationCommand(command, token));
+    }
+    return results;
+}
+
+/**
+ * Formats verification results for a prompt to the agent
+ * @param results The results to format
+ * @returns Markdown with the status of every command and the output of the failed ones
+ */
+export function formatVerificationResults(results: VerificationResult[]): string {
+    return results.map(result => {
+        if (result.passed) {
+            return `### PASSED: ${result.name}`;
+        }
+        const exit = result.exitCode === undefined ? 'did not exit' : `exit code ${result.exitCode}`;
+        const output = result.output.trim() || '(no output)';
+        return `### FAILED: ${result.name} (${exit})\n\n\`\`\`text\n${output}\n\`\`\``;
+    }).join('\n\n');
+}
+
+/**
+ * Validates the verification commands of a pipeline step or setting
+ * @param value The untrusted value
+ * @param location Where the value came from, used in error messages
+ * @throws ConfigurationError if the value is not a list of commands
+ */
+export function validateVerificationCommands(value: unknown, location: string): asserts value is VerificationCommand[] {
+    if (!Array.isArray(value)) {
+        throw new ConfigurationError(`${location} must be an array of verification commands`);
+    }
+    value.forEach((command, index) => {
+        const hasTask = typeof command?.task === 'string';
+        const hasCommand = typeof command?.command === 'string';
+        if (typeof command !== 'object' || command === null || hasTask === hasCommand) {
+            throw new ConfigurationError(`${location}[${index}] needs either a 'task' label or a shell 'command'`);
+        }
+        if (command.timeoutMs !== undefined && typeof command.timeoutMs !== 'number') {
+            throw new ConfigurationError(`${location}[${index}]: 'timeoutMs' must be a number`);
+        }
+    });
+}
+
+async function runVerificationCommand(command: VerificationCommand, token: vscode.CancellationToken): Promise<VerificationResult> {
+    const startTime = Date.now();
+    const name = command.name || command.task || command.command || 'verification';
+    const timeoutMs = command.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT;
+
+    try {
+        const outcome = command.task
+            ? await runNamedTask(command.task, name, timeoutMs, token)
+            : await runShellCommand(command.command || '', name, getWorkspaceFolder()?.uri.fsPath, undefined, timeoutMs, token);
+        return {
+            name,
+            passed: outcome.exitCode === 0,
+            exitCode: outcome.exitCode,
+            output: outcome.output,
+            durationMs: Date.now() - startTime
+        };
+    } catch (error) {
+        if (error instanceof WorkflowCancelledError) {
+            throw error;
+        }
+        return {
+            name,
+            passed: false,
+            exitCode: undefined,
+            output: error instanceof Error ? error.message : String(error),
+            durationMs: Date.now() - startTime
+        };
+    }
+}
+
+/**
+ * Runs a VS Code task by label
+ * Shell and process tasks are re-run through Marco's own terminal so their output can be captured;
+ * other tasks only report their exit code.
+ */
+async function runNamedTask(
+    label: string,
+    name: string,
+    timeoutMs: number,
+    token: vscode.CancellationToken
+): Promise<CommandOutcome> {
+    const tasks = await vscode.tasks.fetchTasks();
+    const task = tasks.find(t => t.name === label || `${t.source}: ${t.name}` === label);
+    if (!task) {
+        throw new Error(`Task '${label}' was not found`);
+    }
+
+    const folder = typeof task.scope === 'object' ? task.scope : getWorkspaceFolder();
+    const execution = task.execution;
+
+    if (execution instanceof vscode.ShellExecution) {
+        const args = (execution.args || []).map(arg => typeof arg === 'string' ? arg : arg.value);
+        const commandValue = typeof execution.command === 'string' ? execution.command : execution.command?.value;
+        const commandLine = execution.commandLine ?? [commandValue, ...args].join(' ');
+        const cwd = resolveWorkspaceVariables(execution.options?.cwd, folder) ?? folder?.uri.fsPath;
+        return runShellCommand(commandLine, name, cwd, execution.options?.env, timeoutMs, token);
+    }
+
+    if (execution instanceof vscode.ProcessExecution) {
+        const commandLine = [execution.process, ...execution.args].map(quoteArgument).join(' ');
+        const cwd = resolveWorkspaceVariables(execution.options?.cwd, folder) ?? folder?.uri.fsPath;
+        return runShellCommand(commandLine, name, cwd, execution.options?.env, timeoutMs, token);
+    }
+
+    const exitCode = await executeTask(task, timeoutMs, token, async () => {
+        const endEvent = await waitForTaskProcessEnd(task);
+        return endEvent.exitCode;
+    });
+    return { exitCode, output: `Output of task '${label}' was not captured; see its terminal.` };
+}
+
+interface CommandOutcome {
+    exitCode: number | undefined;
+    output: string;
+}
+
+/**
+ * Runs a shell command as a VS Code task, capturing its output
+ */
+async function runShellCommand(
+    commandLine: string,
+    name: string,
+    cwd: string | undefined,
+    env: Record<string, string> | undefined,
+    timeoutMs: number,
+    token: vscode.CancellationToken
+): Promise<CommandOutcome> {
+    let output = '';
+    let resolveExit!: (exitCode: number | undefined) => void;
+    const exited = new Promise<number | undefined>(resolve => { resolveExit = resolve; });
+
+    const execution = new vscode.CustomExecution(async () => new CapturingTerminal(
+        commandLine,
+        cwd,
+        env,
+        chunk => { output = (output + chunk).slice(-MAX_OUTPUT_CHARS * 2); },
+        resolveExit
+    ));
+    const task = new vscode.Task(
+        { type: VERIFICATION_TASK_TYPE, command: commandLine },
+        getWorkspaceFolder() ?? vscode.TaskScope.Workspace,
+        name,
+        'Marco AI',
+        execution
+    );
+    task.presentationOptions = { reveal: vscode.TaskRevealKind.Silent, clear: true };
+
+    const exitCode = await executeTask(task, timeoutMs, token, () => exited);
+    return { exitCode, output: stripAnsi(output).slice(-MAX_OUTPUT_CHARS) };
+}
+
+/**
+ * Executes a task and waits for it to finish, terminating it on timeout or cancellation
+ */
+async function executeTask(
+    task: vscode.Task,
+    timeoutMs: number,
+    token: vscode.CancellationToken,
+    waitForExit: () => Promise<number | undefined>
+): Promise<number | undefined> {
+    const exitPromise = waitForExit();
+    const taskExecution = await vscode.tasks.executeTask(task);
+
+    let timer: NodeJS.Timeout | undefined;
+    let cancelListener: vscode.Disposable | undefined;
+    const interrupted = new Promise<'timeout' | 'cancelled'>(resolve => {
+        timer = setTimeout(() => resolve('timeout'), timeoutMs);
+        cancelListener = token.onCancellationRequested(() => resolve('cancelled'));
+    });
+
+    try {
+        const outcome = await Promise.race([exitPromise, interrupted]);
+        if (outcome === 'timeout' || outcome === 'cancelled') {
+            taskExecution.terminate();
+            if (outcome === 'cancelled') {
+                throw new WorkflowCancelledError();
+            }
+            throw new Error(`Timed out after ${Math.round(timeoutMs / 1000)}s`);
+        }
+        return outcome;
+    } finally {
+        clearTimeout(timer);
+        cancelListener?.dispose();
+    }
+}
+
+function waitForTaskProcessEnd(task: vscode.Task): Promise<vscode.TaskProcessEndEvent> {
+    return new Promise(resolve => {
+        const listener = vscode.tasks.onDidEndTaskProcess(event => {
+            if (event.execution.task.name === task.name && event.execution.task.source === task.source) {
+                listener.dispose();
+                resolve(event);
+            }
+        });
+    });
+}
+
+/**
+ * Pseudoterminal that runs a shell command and mirrors its output to the terminal panel
+ */
+class CapturingTerminal implements vscode.Pseudoterminal {
+    private readonly writeEmitter = new vscode.EventEmitter<string>();
+    private readonly closeEmitter = new vscode.EventEmitter<number>();
+    private child: ChildProcess | undefined;
+
+    public readonly onDidWrite = this.writeEmitter.event;
+    public readonly onDidClose = this.closeEmitter.event;
+
+    constructor(
+        private readonly commandLine: string,
+        private readonly cwd: string | undefined,
+        private readonly env: Record<string, string> | undefined,
+        private readonly onOutput: (chunk: string) => void,
+        private readonly onExit: (exitCode: number | undefined) => void
+    ) { }
+
+    public open(): void {
+        this.writeEmitter.fire(`> ${this.commandLine}\r\n\r\n`);
+        this.child = spawn(this.commandLine, {
+            cwd: this.cwd,
+            env: { ...process.env, ...this.env },
+            shell: true,
+            // Own process group, so close() can stop what the shell started (e.g. `npm test`) too
+            detached: process.platform !== 'win32'
+        });
+
+        const handleData = (data: Buffer) => {
+            const text = data.toString();
+            this.onOutput(text);
+            this.writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+        };
+        this.child.stdout?.on('data', handleData);
+        this.child.stderr?.on('data', handleData);
+
+        this.child.on('error', error => {
+            this.onOutput(`${error.message}\n`);
+            this.finish(undefined);
+        });
+        this.child.on('close', code => this.finish(code ?? undefined));
+    }
+
+    public close(): void {
+        if (this.child && this.child.exitCode === null && this.child.signalCode === null) {
+            killProcessTree(this.child);
+        }
+    }
+
+    private finish(exitCode: number | undefined): void {
+        this.onExit(exitCode);
+        this.closeEmitter.fire(exitCode ?? 1);
+    }
+}
+
+/**
+ * Stops a shell and the processes it started
+ * On Windows through taskkill; elsewhere by signalling the process group the shell leads.
+ */
+function killProcessTree(child: ChildProcess): void {
+    if (child.pid === undefined) {
+        return;
+    }
+    if (process.platform === 'win32') {
+        spawn('taskkill', ['/pid', String(child.pid), '/t', '/f']);
+        return;
+    }
+    try {
+        process.kill(-child.pid, 'SIGTERM');
+    } catch {
+        // The group is gone already
+        child.kill();
+    }
+}
+
+function getWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+    return vscode.workspace.workspaceFolders?.[0];
+}
+
+function resolveWorkspaceVariables(value: string | undefined, folder: vscode.WorkspaceFolder | undefined): string | undefined {
+    if (!value || !folder) {
+        return value;
+    }
+    return value.replace(/\$\{workspaceFolder\}|\$\{workspaceRoot\}/g, folder.uri.fsPath);
+}
+
+function quoteArgument(arg: string): string {
+    return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `"${arg.replace(/(["\\$`])/g, '\\$1')}"`;
+}
+
+function stripAnsi(text: string): string {
+    return text.replace(/\x1b\[[0-9;?]*[ -/]*[@-~]/g, '');
+}
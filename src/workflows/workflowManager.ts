@@ -1,22 +1,16 @@
 import * as vscode from 'vscode';
-import { StatusManager, WorkflowState } from '../statusManager';
-// Updated import paths for utils
-import { ensureChatOpen, selectAIModel, sendChatMessage } from '../utils/chatUtils';
+import { InvalidStateTransitionError } from '../errors/workflow_errors';
+import { GitCheckpointStore } from '../git/checkpoints';
 import { sleep } from '../utils/helpers';
-
-// Track the workflow state
-let isRunning = false;
-let isPaused = false;
-let currentWorkflowPromise: Promise<void> | null = null;
-let backgroundMode = false;
-let iterationCount = 0; // Track number of iterations
+import { clearCheckpoint, loadCheckpoint } from './runCheckpoint';
+import { RunOptions, WorkflowRunner } from './workflowRunner';
 
 /**
  * Check if the workflow is currently running
  * @returns True if running, false otherwise
  */
 export function isWorkflowRunning(): boolean {
-    return isRunning;
+    return WorkflowRunner.getInstance().isRunning();
 }
 
 /**
@@ -24,7 +18,7 @@ export function isWorkflowRunning(): boolean {
  * @returns True if paused, false otherwise
  */
 export function isWorkflowPaused(): boolean {
-    return isPaused;
+    return WorkflowRunner.getInstance().isPaused();
 }
 
 /**
@@ -32,7 +26,7 @@ export function isWorkflowPaused(): boolean {
  * @returns True if in background mode
  */
 export function isBackgroundMode(): boolean {
-    return backgroundMode;
+    return WorkflowRunner.getInstance().isBackgroundMode();
 }
 
 /**
@@ -40,7 +34,7 @@ export function isBackgroundMode(): boolean {
  * @param enabled Whether background mode should be enabled
  */
 export function setBackgroundMode(enabled: boolean): void {
-    backgroundMode = enabled;
+    WorkflowRunner.getInstance().setBackgroundMode(enabled);
 }
 
 /**
@@ -48,476 +42,197 @@ export function setBackgroundMode(enabled: boolean): void {
  * @returns The number of iterations completed
  */
 export function getIterationCount(): number {
-    return iterationCount;
+    return WorkflowRunner.getInstance().getIteration();
 }
 
 /**
- * Runs the Marco AI workflow
- * @param context The VS Code extension context
- * @param action The action to perform (play, pause, stop, restart)
+ * Get the identifier of the current (or last) workflow run
+ * @returns The run ID, or undefined if no run was started yet
  */
-export async function runWorkflow(context: vscode.ExtensionContext, action: string): Promise<void> {
-    const statusManager = StatusManager.getInstance();
-
-    switch (action) {
-        case 'play':
-            if (isRunning) {
-                return; // Already running
-            }
-
-            isRunning = true;
-            isPaused = false;
-            // Reset iteration count when starting a new workflow
-            iterationCount = 0;
-
-            // Get background mode setting
-            const config = vscode.workspace.getConfiguration('marco');
-            backgroundMode = config.get<boolean>('backgroundMode') || false;
-
-            // Show notification if starting in background mode
-            if (backgroundMode) {
-                vscode.window.showInformationMessage('Marco AI workflow starting in background mode. The chat will be minimized when possible.');
-            }
-
-            // Start the workflow in the background
-            currentWorkflowPromise = (async () => {
-                try {
-                    await initialSetup(context);
-                    await developmentWorkflow(context);
-
-                    // Mark as completed
-                    statusManager.setState(WorkflowState.Completed, "Workflow completed successfully");
-                    isRunning = false;
-                } catch (error) {
-                    if (error instanceof WorkflowCancelledError) {
-                        // This is expected when workflow is stopped
-                        statusManager.setState(WorkflowState.Idle, "Workflow stopped");
-                    } else {
-                        console.error('Workflow error:', error);
-                        statusManager.setState(WorkflowState.Error, `Workflow failed: ${error}`);
-                    }
-                    isRunning = false;
-                    isPaused = false;
-                }
-            })();
-
-            break;
-
-        case 'restart':
-            // Stop any current workflow
-            await stopWorkflow();
-
-            // Wait a moment before restarting
-            await sleep(500);
-
-            // Start from the beginning
-            await runWorkflow(context, 'play');
-            break;
-
-        case 'continue':
-            // Continue the development workflow with another iteration
-            if (!isRunning) {
-                // If workflow isn't running, start it
-                await runWorkflow(context, 'play');
-            } else if (isPaused) {
-                // If paused, resume it
-                resumeWorkflow(context);
-            } else {
-                // Continue with next iteration
-                await continueDevelopment(context);
-            }
-            break;
-    }
+export function getCurrentRunId(): string | undefined {
+    return WorkflowRunner.getInstance().getRunId();
 }
 
 /**
- * Continue the development workflow with another iteration
- * @param context The VS Code extension context
+ * Get the root folder of the repository the current (or last) run created its branch in
+ * @returns The folder, or undefined if the run did not create a branch
  */
-export async function continueDevelopment(context: vscode.ExtensionContext): Promise<void> {
-    const statusManager = StatusManager.getInstance();
-
-    try {
-        // Check for cancellation
-        await checkContinue();
-
-        // Increment the iteration count
-        iterationCount++;
-
-        // Update status
-        statusManager.setState(WorkflowState.SendingTask, `Starting iteration #${iterationCount}`);
-
-        // Load the continue iteration prompt
-        const continuePrompt = await loadPromptFile(context, 'continue_iteration');
-
-        // Send the continue prompt
-        await sendChatMessage(`@agent Continue: "${continuePrompt}"`, backgroundMode);
-
-        // Allow time for agent to respond (Increased delay)
-        await sleep(4000); // Increased from 2000
-        await checkContinue();
-
-        // Resume normal development workflow
-        await developmentWorkflow(context);
-
-    } catch (error) {
-        if (error instanceof WorkflowCancelledError) {
-            throw error;
-        }
-
-        statusManager.setState(WorkflowState.Error, "Failed to continue development iteration");
-        throw error;
-    }
+export function getCurrentRepoRoot(): string | undefined {
+    return WorkflowRunner.getInstance().getRepoRoot();
 }
 
 /**
- * Pauses the current workflow
+ * Check if the workflow waits for the user to review an iteration
+ * @returns True if a review decision is pending
  */
-export function pauseWorkflow(): void {
-    if (!isRunning || isPaused) {
-        return;
-    }
-
-    isPaused = true;
-    const statusManager = StatusManager.getInstance();
-    statusManager.setState(WorkflowState.Paused, "Workflow paused");
+export function isAwaitingApproval(): boolean {
+    return WorkflowRunner.getInstance().isAwaitingApproval();
 }
 
 /**
- * Resumes the paused workflow
+ * Check if a review decision can be made now
+ * @returns False while the run is paused, even during a review
  */
-export function resumeWorkflow(context: vscode.ExtensionContext): void {
-    if (!isRunning || !isPaused) {
-        return;
-    }
-
-    isPaused = false;
-    const statusManager = StatusManager.getInstance();
-    statusManager.setState(WorkflowState.Initializing, "Workflow resumed");
+export function canReviewIteration(): boolean {
+    return WorkflowRunner.getInstance().canSubmitReview();
 }
 
 /**
- * Stops the current workflow
+ * Whether the iteration under review was committed as a git checkpoint
+ * Reverting it then resets the branch; otherwise all uncommitted changes are discarded.
  */
-export async function stopWorkflow(): Promise<void> {
-    if (!isRunning) {
-        return;
-    }
-
-    isRunning = false;
-    isPaused = false;
-
-    // Reset current workflow
-    currentWorkflowPromise = null;
-    // Reset iteration count when stopping
-    iterationCount = 0;
-
-    const statusManager = StatusManager.getInstance();
-    statusManager.setState(WorkflowState.Idle, "Workflow stopped");
+export function reviewedIterationHasCheckpoint(): boolean {
+    const runner = WorkflowRunner.getInstance();
+    const runId = runner.getRunId();
+    return !!runId && GitCheckpointStore.getInstance().hasCheckpoint(runId, runner.getIteration() + 1);
 }
 
 /**
- * Custom error type for workflow cancellation
+ * Approves the iteration under review; the workflow goes on as usual
+ * @throws InvalidStateTransitionError if no iteration is awaiting approval or the run is paused
  */
-class WorkflowCancelledError extends Error {
-    constructor(message = 'Workflow cancelled') {
-        super(message);
-        this.name = 'WorkflowCancelledError';
-    }
+export function approveIteration(): void {
+    WorkflowRunner.getInstance().submitReview({ action: 'approve' });
 }
 
 /**
- * Check if the workflow should continue or throw if cancelled/paused
+ * Rejects the iteration under review; the feedback is sent to the agent as the next prompt
+ * @param feedback What the agent should change
+ * @throws InvalidStateTransitionError if no iteration is awaiting approval or the run is paused
  */
-async function checkContinue(): Promise<void> {
-    if (!isRunning) {
-        throw new WorkflowCancelledError();
-    }
-
-    // If paused, wait until unpaused
-    while (isPaused) {
-        await sleep(500);
-
-        // Check if cancelled during pause
-        if (!isRunning) {
-            throw new WorkflowCancelledError();
-        }
-    }
+export function rejectIteration(feedback: string): void {
+    WorkflowRunner.getInstance().submitReview({ action: 'reject', feedback });
 }
 
 /**
- * Loads a prompt file from the prompts directory using the extension context
- * @param context The VS Code extension context
- * @param fileName The name of the prompt file (without extension)
- * @returns The content of the prompt file
+ * Reverts the changes of the iteration under review and tells the agent about it
+ * @param feedback Optional explanation sent to the agent
+ * @throws InvalidStateTransitionError if no iteration is awaiting approval or the run is paused;
+ * the repository is left untouched then
+ * @throws GitOperationError if the changes could not be reverted
  */
-async function loadPromptFile(context: vscode.ExtensionContext, fileName: string): Promise<string> {
-    const filePathBase = vscode.Uri.joinPath(context.extensionUri, 'src', 'prompts', fileName);
-    const txtFilePath = filePathBase.with({ path: filePathBase.path + '.txt' });
-    const mdFilePath = filePathBase.with({ path: filePathBase.path + '.md' });
-
-    try {
-        console.log(`Attempting to load prompt from: ${txtFilePath.fsPath}`);
-        const contentBytes = await vscode.workspace.fs.readFile(txtFilePath);
-        const content = new TextDecoder().decode(contentBytes);
-        console.log(`Successfully loaded prompt from ${txtFilePath.fsPath}`);
-        return content;
-    } catch (error) {
-        console.warn(`Failed to load prompt ${fileName}.txt: ${error}. Trying .md fallback.`);
-        try {
-            console.log(`Attempting to load prompt from: ${mdFilePath.fsPath}`);
-            const contentBytes = await vscode.workspace.fs.readFile(mdFilePath);
-            const content = new TextDecoder().decode(contentBytes);
-            console.log(`Successfully loaded prompt from ${mdFilePath.fsPath}`);
-            return content;
-        } catch (mdError) {
-            console.error(`Failed to load prompt ${fileName} (.txt or .md):`, mdError);
-            // Return a specific error message that can be sent to chat if needed
-            return `Error: Could not load prompt file '${fileName}'. Please check extension installation and file paths.`;
-        }
+export async function revertIteration(feedback?: string): Promise<void> {
+    const runner = WorkflowRunner.getInstance();
+    const runId = runner.getRunId();
+    if (!runner.canSubmitReview() || !runId) {
+        throw new InvalidStateTransitionError(runner.getState(), 'review decision');
     }
+    await GitCheckpointStore.getInstance().revertIteration(runId, runner.getIteration() + 1, runner.getRepoRoot());
+    runner.submitReview({ action: 'revert', feedback });
 }
 
 /**
- * Performs the initial setup phase of the workflow
+ * Runs the Marco AI workflow
+ * @param context The VS Code extension context
+ * @param action The action to perform (play, pause, stop, restart, continue)
  */
-async function initialSetup(context: vscode.ExtensionContext): Promise<void> {
-    const statusManager = StatusManager.getInstance();
-    statusManager.setState(WorkflowState.Initializing, "Setting up environment");
-
-    try {
-        // Check for cancellation
-        await checkContinue();
-
-        // 1) Open chat using our enhanced method - focus depends on backgroundMode
-        const shouldFocusChat = !backgroundMode;
-        await ensureChatOpen(5, 1000, shouldFocusChat);
-
-        // Attempt to move the chat view to the secondary sidebar (right panel) if focused
-        if (shouldFocusChat) {
-            try {
-                // Delay to allow focus to settle before moving
-                await sleep(500);
-                // First focus the GitHub Copilot Chat view specifically
-                await vscode.commands.executeCommand('github.copilot.chat.focus');
+export async function runWorkflow(context: vscode.ExtensionContext, action: string): Promise<void> {
+    const runner = WorkflowRunner.getInstance();
 
-            } catch (moveError) {
-                console.warn('Could not automatically move Copilot Chat view to the right panel:', moveError);
-                // Optionally inform the user if the move fails, but avoid blocking the workflow
-                // vscode.window.showWarningMessage('Could not automatically move Copilot Chat view. You may need to move it manually.');
+    switch (action) {
+        case 'play':
+            if (runner.isRunning()) {
+                return; // Already running
             }
-        }
-
-        // Get user's task description from context or use default
-        const userInput = context.workspaceState.get('marco.userInput');
-        const taskDescription = typeof userInput === 'string'
-            ? userInput
-            : 'Starting Marco AI automation process. I will help automate your workflow.';
-
-        // 2) Set the agent mode based on configuration
-        const config = vscode.workspace.getConfiguration('marco');
-        const agentMode = config.get<string>('agentMode') || 'Agent';
-
-        statusManager.setState(WorkflowState.SendingTask, "Setting agent mode");
-        await sendChatMessage(`I'll be working in ${agentMode} mode for this task.`, backgroundMode);
-
-        // 3) Select preferred LLM model from configuration
-        const preferredModels = config.get<string[]>('preferredModels') ||
-            ["Claude 3.7 Sonnet", "Gemini 2.5", "GPT 4.1"];
-
-        if (preferredModels.length > 0) {
-            statusManager.setState(WorkflowState.SendingTask, "Selecting optimal AI model");
+            runner.start(context);
+            break;
 
-            // Try to select the first preferred model
-            let modelSelected = false;
-            for (const model of preferredModels) {
-                if (await selectAIModel(model)) {
-                    modelSelected = true;
-                    break;
-                }
+        case 'pause':
+            if (!runner.isRunning()) {
+                return; // Nothing to pause or resume
             }
+            if (runner.isPaused()) {
+                resumeWorkflow(context);
+            } else {
+                pauseWorkflow();
+            }
+            break;
 
-            // Inform about preferred models via message
-            const modelPriorityMessage = `I'll be using the most capable model available in this priority order: ${preferredModels.join(' > ')}.`;
-            await sendChatMessage(modelPriorityMessage, backgroundMode);
-        }
-
-        await checkContinue();
-
-        // 4) Send initial instructions
-        statusManager.setState(WorkflowState.SendingTask, "Sending initial instructions");
-        await sendChatMessage(taskDescription, backgroundMode);
-
-        // 5) Branch creation if configured
-        const initCreateBranch = config.get<boolean>('initCreateBranch');
-        if (initCreateBranch) {
-            statusManager.setState(WorkflowState.CreatingBranch, "Creating new branch");
-            await createAndCheckoutBranch();
-            await sendChatMessage('Created new branch for this feature. Please click Continue when ready.', backgroundMode);
+        case 'stop':
+            await stopWorkflow();
+            break;
 
-            // Pause for user to acknowledge branch creation
-            await sleep(2000);
-        }
+        case 'restart':
+            // Stop any current workflow
+            await stopWorkflow();
 
-        await checkContinue();
+            // Wait a moment before restarting
+            await sleep(500);
 
-    } catch (error) {
-        if (error instanceof WorkflowCancelledError) {
-            throw error;
-        }
+            // Start from the beginning
+            await runWorkflow(context, 'play');
+            break;
 
-        statusManager.setState(WorkflowState.Error, "Setup failed");
-        throw error;
+        case 'continue':
+            // Start, resume, or run another development iteration
+            await continueDevelopment(context);
+            break;
     }
 }
 
 /**
- * Performs the development workflow phase
+ * Starts a run of a specific task
+ * @param context The VS Code extension context
+ * @param options The task and the settings to override
+ * @throws InvalidStateTransitionError if a run is already in progress
  */
-async function developmentWorkflow(context: vscode.ExtensionContext): Promise<void> {
-    const statusManager = StatusManager.getInstance();
-    const config = vscode.workspace.getConfiguration('marco');
-
-    try {
-        // Check for cancellation
-        await checkContinue();
-
-        // Update status based on iteration count
-        const iterationMessage = iterationCount > 0 ? ` (iteration #${iterationCount})` : '';
-
-        // 1) Send development task/checklist
-        statusManager.setState(WorkflowState.SendingTask, `Sending development checklist${iterationMessage}`);
-
-        // Load init prompt (pass filename without extension)
-        const initPrompt = await loadPromptFile(context, 'init');
-        await sendChatMessage(`@agent ${initPrompt}`, backgroundMode);
-
-        // Send checklist after init prompt
-        await sendChecklistToChat(context);
-
-        // Allow time for agent to process (Increased delay)
-        await sleep(4000); // Increased from 2000
-        await checkContinue();
-
-        // 2) Check agent status after some time
-        statusManager.setState(WorkflowState.CheckingStatus, `Checking agent progress${iterationMessage}`);
-
-        // Load check_agent prompt (pass filename without extension)
-        const checkAgentPrompt = await loadPromptFile(context, 'check_agent');
-        await sendChatMessage(`@agent ${checkAgentPrompt}`, backgroundMode);
-
-        // Allow time for agent to respond (Increased delay)
-        await sleep(6000); // Increased from 3000
-        await checkContinue();
-
-        // 3) Request tests if configured
-        const needToWriteTest = config.get<boolean>('needToWriteTest');
-        if (needToWriteTest) {
-            statusManager.setState(WorkflowState.RequestingTests, `Requesting test implementation${iterationMessage}`);
-
-            // Load write_tests prompt (pass filename without extension)
-            const writeTestsPrompt = await loadPromptFile(context, 'write_tests');
-            await sendChatMessage(`@agent ${writeTestsPrompt}`, backgroundMode);
-
-            // Allow time for agent to process (Increased delay)
-            await sleep(6000); // Increased from 3000
-            await checkContinue();
-
-            // Check status again
-            statusManager.setState(WorkflowState.CheckingStatus, `Checking agent progress on tests${iterationMessage}`);
-            // Load test progress prompt (pass filename without extension)
-            const testProgressPrompt = await loadPromptFile(context, 'test_progress');
-            await sendChatMessage(`@agent ${testProgressPrompt}`, backgroundMode);
-
-            // Allow time for agent to respond (Increased delay)
-            await sleep(6000); // Increased from 3000
-            await checkContinue();
-        }
-
-        // 4) Verify completion of checklist
-        statusManager.setState(WorkflowState.VerifyingChecklist, `Verifying checklist completion${iterationMessage}`);
-
-        // Load check_checklist prompt (pass filename without extension)
-        const checkChecklistPrompt = await loadPromptFile(context, 'check_checklist');
-        await sendChatMessage(`@agent ${checkChecklistPrompt}`, backgroundMode);
-
-        // Allow time for agent to respond (Increased delay)
-        await sleep(6000); // Increased from 3000
-
-        // 5) Loop back or continue based on checklist status
-        const continueToNextIteration = await shouldContinueToNextIteration(context);
-        if (continueToNextIteration) {
-            iterationCount++;
-            statusManager.setState(WorkflowState.ContinuingIteration, `Starting iteration ${iterationCount}`);
-
-            // Load continue_iteration prompt (pass filename without extension)
-            const continueIterationPrompt = await loadPromptFile(context, 'continue_iteration');
-            await sendChatMessage(`@agent ${continueIterationPrompt}`, backgroundMode);
-
-            // Allow time for agent to process (Increased delay)
-            await sleep(6000); // Increased from 3000
-
-            // Loop back to start of development workflow
-            await developmentWorkflow(context);
-        } else {
-            // Workflow completed
-            statusManager.setState(WorkflowState.Completed, 'Development workflow completed');
-        }
-    } catch (error) {
-        if (error instanceof WorkflowCancelledError) {
-            throw error;
-        }
+export function startWorkflow(context: vscode.ExtensionContext, options: RunOptions): void {
+    WorkflowRunner.getInstance().start(context, options);
+}
 
-        statusManager.setState(WorkflowState.Error, `Development workflow error: ${error}`);
-    }
+/**
+ * Continue the development workflow with another iteration
+ * @param context The VS Code extension context
+ */
+export async function continueDevelopment(context: vscode.ExtensionContext): Promise<void> {
+    WorkflowRunner.getInstance().continue(context);
 }
 
 /**
- * Sends the development checklist to the chat
+ * Pauses the current workflow
+ * @throws InvalidStateTransitionError if no workflow step is active
  */
-async function sendChecklistToChat(context: vscode.ExtensionContext): Promise<void> {
-    // Load checklist from prompt file (pass filename without extension)
-    const checklist = await loadPromptFile(context, 'checklist');
-    await sendChatMessage(checklist, backgroundMode);
+export function pauseWorkflow(): void {
+    WorkflowRunner.getInstance().pause();
 }
 
 /**
- * Sends test writing instructions to the chat
+ * Resumes the paused workflow
+ * @throws InvalidStateTransitionError if the workflow is not paused
  */
-async function sendTestInstructionsToChat(context: vscode.ExtensionContext): Promise<void> {
-    // Implementation here
+export function resumeWorkflow(context: vscode.ExtensionContext): void {
+    WorkflowRunner.getInstance().resume();
 }
 
 /**
- * Creates and checks out a new branch
+ * Stops the current workflow, cancelling the step in progress
  */
-async function createAndCheckoutBranch(): Promise<boolean> {
-    try {
-        const gitExtension = vscode.extensions.getExtension<any>('vscode.git');
-        if (gitExtension) {
-            const git = gitExtension.exports.getAPI(1);
-            if (git.repositories.length > 0) {
-                const repo = git.repositories[0];
-                const branchName = `feature/marco-${Date.now()}`;
-                await repo.createBranch(branchName, true);
-                vscode.window.showInformationMessage(`Created and checked out branch: ${branchName}`);
-                return true;
-            } else {
-                vscode.window.showWarningMessage('No Git repositories found in the workspace');
-            }
-        } else {
-            vscode.window.showWarningMessage('Git extension not found or not activated');
-        }
-    } catch (error) {
-        vscode.window.showErrorMessage(`Failed to create branch: ${error}`);
-    }
-    return false;
+export async function stopWorkflow(): Promise<void> {
+    await WorkflowRunner.getInstance().stop();
 }
 
 /**
- * Determines whether to continue to the next iteration
+ * Offers to resume a run that was interrupted, e.g. by a window reload
+ * @param context The VS Code extension context
  */
-async function shouldContinueToNextIteration(context: vscode.ExtensionContext): Promise<boolean> {
-    // Placeholder: always return false (no further iterations)
-    return false;
-}
\ No newline at end of file
+export async function offerToResumeInterruptedRun(context: vscode.ExtensionContext): Promise<void> {
+    const checkpoint = loadCheckpoint(context);
+    if (!checkpoint || isWorkflowRunning()) {
+        return;
+    }
+
+    const lastStep = checkpoint.lastCompletedStepId || checkpoint.lastCompletedStep || 'start';
+    const updated = new Date(checkpoint.updatedAt).toLocaleString();
+    const choice = await vscode.window.showInformationMessage(
+        `Marco AI was interrupted while working on "${checkpoint.taskDescription}" ` +
+        `(iteration #${checkpoint.iteration + 1}, last completed step: ${lastStep}, ${updated}). Resume?`,
+        'Resume',
+        'Discard'
+    );
+
+    if (choice === 'Resume') {
+        WorkflowRunner.getInstance().start(context, { resumeFrom: checkpoint });
+    } else if (choice === 'Discard') {
+        await clearCheckpoint(context);
+    }
+}
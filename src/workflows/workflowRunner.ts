@@ -0,0 +1,627 @@
+import * as vscode from 'vscode';
+import { ChatBackend } from '../chat/chatBackend';
+import { CopilotChatBackend } from '../chat/copilotChatBackend';
+import { TranscriptStore } from '../chat/transcript';
+import { InvalidStateTransitionError, WorkflowCancelledError } from '../errors/workflow_errors';
+import { GitCheckpointStore } from '../git/checkpoints';
+import { StatusManager, WorkflowState } from '../statusManager';
+import { generateUniqueId } from '../utils/helpers';
+import { logger } from '../utils/logger';
+import { ChecklistStatus } from './checklist';
+import { loadPipeline } from './pipeline';
+import { PipelineExecutor, ReviewDecision } from './pipelineEngine';
+import { clearCheckpoint, parseStepPosition, RunCheckpoint, saveCheckpoint } from './runCheckpoint';
+import { VerificationResult } from './verification';
+
+/**
+ * Task sent to the agent when the user did not describe one
+ */
+const DEFAULT_TASK_DESCRIPTION = 'Starting Marco AI automation process. I will help automate your workflow.';
+
+/**
+ * Options for starting a workflow run
+ */
+export interface RunOptions {
+    /** Task to work on, instead of the one saved from the sidebar */
+    taskDescription?: string;
+    /** `marco.*` settings to override for this run (e.g. `{ needToWriteTest: true }`) */
+    settingsOverrides?: Record<string, unknown>;
+    /** Checkpoint of an interrupted run to resume after its last completed step */
+    resumeFrom?: RunCheckpoint;
+}
+
+/**
+ * What a run did, as far as the runner knows
+ */
+export interface RunSummary {
+    runId: string;
+    taskDescription: string;
+    branchName?: string;
+    /** Root folder of the repository the branch was created in */
+    repoRoot?: string;
+    /** Number of iterations run */
+    iterations: number;
+    startedAt: number;
+    /** Checklist status the agent reported last */
+    checklist?: ChecklistStatus;
+    verification: VerificationResult[];
+}
+
+/**
+ * States in which a workflow step is executing
+ */
+const ACTIVE_STATES: readonly WorkflowState[] = [
+    WorkflowState.Initializing,
+    WorkflowState.CreatingBranch,
+    WorkflowState.SendingTask,
+    WorkflowState.CheckingStatus,
+    WorkflowState.RequestingTests,
+    WorkflowState.VerifyingCompletion,
+    WorkflowState.VerifyingChecklist,
+    WorkflowState.ContinuingIteration
+];
+
+/**
+ * Allowed transitions between workflow states
+ * Active states may move freely between each other as the pipeline progresses.
+ */
+const TRANSITIONS: Record<WorkflowState, readonly WorkflowState[]> = buildTransitionTable();
+
+function buildTransitionTable(): Record<WorkflowState, readonly WorkflowState[]> {
+    const table: Partial<Record<WorkflowState, readonly WorkflowState[]>> = {
+        [WorkflowState.Idle]: [WorkflowState.Initializing],
+        [WorkflowState.Paused]: [...ACTIVE_STATES, WorkflowState.AwaitingApproval, WorkflowState.Idle, WorkflowState.Error],
+        [WorkflowState.AwaitingApproval]: [
+            ...ACTIVE_STATES,
+            WorkflowState.Paused, WorkflowState.Completed, WorkflowState.Error, WorkflowState.Idle
+        ],
+        [WorkflowState.Completed]: [...ACTIVE_STATES, WorkflowState.Idle],
+        [WorkflowState.Error]: [WorkflowState.Initializing, WorkflowState.Idle]
+    };
+
+    for (const state of ACTIVE_STATES) {
+        table[state] = [
+            ...ACTIVE_STATES,
+            WorkflowState.AwaitingApproval, WorkflowState.Paused, WorkflowState.Completed, WorkflowState.Error, WorkflowState.Idle
+        ];
+    }
+    return table as Record<WorkflowState, readonly WorkflowState[]>;
+}
+
+/**
+ * Runs the Marco AI workflow as an explicit state machine
+ * Owns the run lifecycle (start, pause, resume, continue, stop) and the
+ * cancellation token that is threaded through every pipeline step.
+ */
+export class WorkflowRunner {
+    private static instance: WorkflowRunner;
+    private state: WorkflowState = WorkflowState.Idle;
+    private stateBeforePause: WorkflowState | undefined;
+    private pendingStepState: { state: WorkflowState; message?: string } | undefined;
+    private resumeWaiters: Array<() => void> = [];
+    private tokenSource: vscode.CancellationTokenSource | undefined;
+    private runPromise: Promise<void> | undefined;
+    private executor: PipelineExecutor | undefined;
+    private chatBackend: ChatBackend = new CopilotChatBackend();
+    private runId: string | undefined;
+    private iteration = 0;
+    private backgroundMode = false;
+    private continueRequested = false;
+    private context: vscode.ExtensionContext | undefined;
+    private checkpoint: RunCheckpoint | undefined;
+    private reviewWaiter: ((decision: ReviewDecision) => void) | undefined;
+
+    private constructor() { }
+
+    /**
+     * Get the singleton instance of WorkflowRunner
+     */
+    public static getInstance(): WorkflowRunner {
+        if (!WorkflowRunner.instance) {
+            WorkflowRunner.instance = new WorkflowRunner();
+        }
+        return WorkflowRunner.instance;
+    }
+
+    /**
+     * Get the current workflow state
+     */
+    public getState(): WorkflowState {
+        return this.state;
+    }
+
+    /**
+     * Whether a run is in progress (active or paused)
+     */
+    public isRunning(): boolean {
+        return this.state === WorkflowState.Paused || this.state === WorkflowState.AwaitingApproval ||
+            ACTIVE_STATES.includes(this.state);
+    }
+
+    /**
+     * Whether the run is paused
+     */
+    public isPaused(): boolean {
+        return this.state === WorkflowState.Paused;
+    }
+
+    /**
+     * Whether the run waits for the user to review an iteration
+     * Stays true while a run awaiting approval is paused.
+     */
+    public isAwaitingApproval(): boolean {
+        return this.reviewWaiter !== undefined;
+    }
+
+    /**
+     * Whether a review decision can be submitted now: the run awaits approval and is not paused
+     */
+    public canSubmitReview(): boolean {
+        return this.state === WorkflowState.AwaitingApproval && this.reviewWaiter !== undefined;
+    }
+
+    /**
+     * Get the number of iterations started in the current run
+     */
+    public getIteration(): number {
+        return this.iteration;
+    }
+
+    /**
+     * Get the identifier of the current (or last) run
+     */
+    public getRunId(): string | undefined {
+        return this.runId;
+    }
+
+    /**
+     * Get the chat backend runs talk to the agent through
+     */
+    public getChatBackend(): ChatBackend {
+        return this.chatBackend;
+    }
+
+    /**
+     * Replace the chat backend; takes effect with the next run
+     * @param backend The backend, e.g. a MockChatBackend in tests
+     */
+    public setChatBackend(backend: ChatBackend): void {
+        this.chatBackend = backend;
+    }
+
+    /**
+     * Get the task description of the current (or last) run
+     */
+    public getTaskDescription(): string | undefined {
+        return this.checkpoint?.taskDescription;
+    }
+
+    /**
+     * Get the settings the current (or last) run overrides
+     */
+    public getSettingsOverrides(): Record<string, unknown> | undefined {
+        return this.checkpoint?.settingsOverrides && { ...this.checkpoint.settingsOverrides };
+    }
+
+    /**
+     * Get the branch created for the current (or last) run
+     */
+    public getBranchName(): string | undefined {
+        return this.checkpoint?.branchName;
+    }
+
+    /**
+     * Get the root folder of the repository the current (or last) run created its branch in
+     */
+    public getRepoRoot(): string | undefined {
+        return this.checkpoint?.repoRoot;
+    }
+
+    /**
+     * Get a summary of the current (or last) run
+     * @returns The summary, or undefined if no run was started yet
+     */
+    public getRunSummary(): RunSummary | undefined {
+        if (!this.runId || !this.checkpoint) {
+            return undefined;
+        }
+        return {
+            runId: this.runId,
+            taskDescription: this.checkpoint.taskDescription,
+            branchName: this.checkpoint.branchName,
+            repoRoot: this.checkpoint.repoRoot,
+            iterations: this.iteration + 1,
+            startedAt: this.checkpoint.startedAt,
+            checklist: this.executor?.getChecklistStatus(),
+            verification: this.executor?.getVerificationResults() ?? []
+        };
+    }
+
+    /**
+     * Whether messages are sent without stealing focus
+     */
+    public isBackgroundMode(): boolean {
+        return this.backgroundMode;
+    }
+
+    /**
+     * Set whether messages are sent without stealing focus
+     * @param enabled Whether background mode should be enabled
+     */
+    public setBackgroundMode(enabled: boolean): void {
+        this.backgroundMode = enabled;
+    }
+
+    /**
+     * Starts a new run of the workspace pipeline
+     * @param context The VS Code extension context
+     * @param options Task, setting overrides or checkpoint to resume
+     * @throws InvalidStateTransitionError if a run is already in progress
+     */
+    public start(context: vscode.ExtensionContext, options: RunOptions = {}): void {
+        const resumeFrom = options.resumeFrom;
+        this.assertCanTransition(WorkflowState.Initializing);
+
+        this.context = context;
+        this.iteration = resumeFrom?.iteration ?? 0;
+        this.continueRequested = false;
+        this.executor = undefined;
+        this.runId = resumeFrom?.runId ?? generateUniqueId();
+        TranscriptStore.getInstance().startRun(this.runId);
+        StatusManager.getInstance().beginRun(this.runId);
+
+        const userInput = context.workspaceState.get('marco.userInput');
+        this.checkpoint = resumeFrom ? { ...resumeFrom } : {
+            runId: this.runId,
+            taskDescription: options.taskDescription
+                || (typeof userInput === 'string' ? userInput : DEFAULT_TASK_DESCRIPTION),
+            settingsOverrides: options.settingsOverrides,
+            iteration: 0,
+            startedAt: Date.now(),
+            updatedAt: Date.now()
+        };
+
+        // Listeners see the new run from its first state on
+        this.transition(WorkflowState.Initializing, resumeFrom ? 'Resuming interrupted workflow' : 'Starting workflow');
+
+        this.backgroundMode = this.getSetting<boolean>('backgroundMode') || false;
+        if (this.backgroundMode) {
+            vscode.window.showInformationMessage('Marco AI workflow starting in background mode. The chat will be minimized when possible.');
+        }
+
+        const resumeAfter = parseStepPosition(resumeFrom?.lastCompletedStep);
+        this.launch(async (token) => {
+            this.executor = await this.createExecutor(context);
+            await this.executor.run(token, resumeAfter);
+        });
+    }
+
+    /**
+     * Starts another development iteration
+     * Starts a new run when idle, resumes when paused, extends a completed run,
+     * and asks an active run to iterate once more instead of finishing.
+     * @param context The VS Code extension context
+     */
+    public continue(context: vscode.ExtensionContext): void {
+        if (this.state === WorkflowState.Paused) {
+            this.resume();
+        } else if (this.isRunning()) {
+            this.continueRequested = true;
+        } else if (this.state === WorkflowState.Completed && this.executor) {
+            const executor = this.executor;
+            this.launch(token => executor.continueDevelopment(token));
+        } else {
+            this.start(context);
+        }
+    }
+
+    /**
+     * Pauses the active run; steps block at their next checkpoint
+     * @throws InvalidStateTransitionError if no step is active
+     */
+    public pause(): void {
+        const previous = this.state;
+        this.transition(WorkflowState.Paused, 'Workflow paused');
+        this.stateBeforePause = previous;
+    }
+
+    /**
+     * Resumes a paused run
+     * @throws InvalidStateTransitionError if the run is not paused
+     */
+    public resume(): void {
+        if (this.state !== WorkflowState.Paused) {
+            throw new InvalidStateTransitionError(this.state, WorkflowState.Initializing);
+        }
+
+        // Return to the state of the step that was interrupted (or reached while pausing)
+        const next = this.pendingStepState || { state: this.stateBeforePause || WorkflowState.Initializing };
+        this.pendingStepState = undefined;
+        this.stateBeforePause = undefined;
+        this.transition(next.state, next.message || 'Workflow resumed');
+
+        const waiters = this.resumeWaiters;
+        this.resumeWaiters = [];
+        waiters.forEach(resolve => resolve());
+    }
+
+    /**
+     * Settles the review of the iteration the run is waiting on
+     * Reverting is done by the caller, which knows whether the user confirmed it.
+     * @param decision The reviewer's decision
+     * @throws InvalidStateTransitionError if the run is not awaiting approval, or is paused
+     */
+    public submitReview(decision: ReviewDecision): void {
+        const waiter = this.reviewWaiter;
+        if (!this.canSubmitReview() || !waiter) {
+            throw new InvalidStateTransitionError(this.state, 'review decision');
+        }
+        this.reviewWaiter = undefined;
+        waiter(decision);
+    }
+
+    /**
+     * Stops the run, cancelling the in-flight step, and waits for it to unwind
+     */
+    public async stop(): Promise<void> {
+        if (!this.isRunning()) {
+            return;
+        }
+
+        this.tokenSource?.cancel();
+        this.transition(WorkflowState.Idle, 'Workflow stopped');
+        this.iteration = 0;
+        this.executor = undefined;
+
+        // Release steps blocked on pause so they observe the cancellation
+        const waiters = this.resumeWaiters;
+        this.resumeWaiters = [];
+        waiters.forEach(resolve => resolve());
+
+        await this.runPromise;
+        await this.finishRun();
+    }
+
+    /**
+     * Moves to a new state, validating it against the transition table
+     * @param state The new state
+     * @param message Optional message to display with the state
+     * @throws InvalidStateTransitionError if the transition is not allowed
+     */
+    public transition(state: WorkflowState, message?: string): void {
+        this.assertCanTransition(state);
+        this.state = state;
+        StatusManager.getInstance().setState(state, message);
+        logger.info(message ? `State changed: ${message}` : 'State changed');
+    }
+
+    /**
+     * @throws InvalidStateTransitionError if the transition table does not allow moving to the state
+     */
+    private assertCanTransition(state: WorkflowState): void {
+        // Active steps may re-report their state to update the message
+        const isUpdate = state === this.state && ACTIVE_STATES.includes(state);
+        if (!isUpdate && !TRANSITIONS[this.state].includes(state)) {
+            throw new InvalidStateTransitionError(this.state, state);
+        }
+    }
+
+    /**
+     * Runs a workflow body with a fresh cancellation token and settles the final state
+     */
+    private launch(body: (token: vscode.CancellationToken) => Promise<void>): void {
+        this.tokenSource?.dispose();
+        const tokenSource = new vscode.CancellationTokenSource();
+        this.tokenSource = tokenSource;
+
+        this.runPromise = (async () => {
+            try {
+                await body(tokenSource.token);
+                this.transition(WorkflowState.Completed, 'Workflow completed successfully');
+            } catch (error) {
+                if (error instanceof WorkflowCancelledError || tokenSource.token.isCancellationRequested) {
+                    // Expected when the workflow is stopped; stop() already moved to Idle
+                    return;
+                }
+                logger.error('Workflow error:', error);
+                this.transition(WorkflowState.Error, `Workflow failed: ${error}`);
+            }
+            await this.finishRun();
+        })();
+    }
+
+    /**
+     * Removes the checkpoint of a run that ended, so it is not offered for resuming
+     */
+    private async finishRun(): Promise<void> {
+        if (this.context) {
+            await clearCheckpoint(this.context);
+        }
+    }
+
+    /**
+     * Records the progress of the run after a completed step
+     */
+    private async saveProgress(position: number[], stepId: string | undefined): Promise<void> {
+        if (!this.context || !this.checkpoint) {
+            return;
+        }
+
+        this.checkpoint.iteration = this.iteration;
+        this.checkpoint.lastCompletedStep = position.join('.');
+        this.checkpoint.lastCompletedStepId = stepId;
+        await saveCheckpoint(this.context, this.checkpoint);
+    }
+
+    /**
+     * Creates a pipeline executor for the workspace pipeline bound to this runner
+     */
+    private async createExecutor(context: vscode.ExtensionContext): Promise<PipelineExecutor> {
+        const pipeline = await loadPipeline();
+
+        return new PipelineExecutor(context, pipeline, {
+            setState: (state, message) => this.setStepState(state, message),
+            checkContinue: (token) => this.checkContinue(token),
+            isBackgroundMode: () => this.backgroundMode,
+            getIteration: () => this.iteration,
+            nextIteration: () => ++this.iteration,
+            consumeContinueRequest: () => {
+                const requested = this.continueRequested;
+                this.continueRequested = false;
+                return requested;
+            },
+            getTaskDescription: () => this.checkpoint?.taskDescription || DEFAULT_TASK_DESCRIPTION,
+            getBranchName: () => this.checkpoint?.branchName,
+            getRepoRoot: () => this.checkpoint?.repoRoot,
+            getSetting: (key) => this.getSetting(key),
+            onBranchCreated: async (branchName, repoRoot) => {
+                if (this.checkpoint) {
+                    this.checkpoint.branchName = branchName;
+                    this.checkpoint.repoRoot = repoRoot;
+                }
+                await this.recordGitCheckpoint(() => this.runId
+                    ? GitCheckpointStore.getInstance().recordBase(this.runId, repoRoot)
+                    : Promise.resolve());
+            },
+            requestReview: (token) => this.requestReview(token),
+            onIterationCompleted: (lastStepId) => this.recordGitCheckpoint(() => this.runId
+                ? GitCheckpointStore.getInstance().commitIteration(
+                    this.runId, this.iteration + 1, lastStepId, this.checkpoint?.taskDescription || DEFAULT_TASK_DESCRIPTION,
+                    this.getSetting<boolean>('gitCheckpointHooks') ?? false)
+                : Promise.resolve()),
+            onStepCompleted: (position, step) => this.saveProgress(position, step?.id)
+        }, this.chatBackend);
+    }
+
+    /**
+     * Moves to AwaitingApproval, shows the iteration's changes and waits for a review decision
+     */
+    private async requestReview(token: vscode.CancellationToken): Promise<ReviewDecision> {
+        const iteration = this.iteration + 1;
+        this.transition(WorkflowState.AwaitingApproval, `Iteration #${iteration} is ready for review`);
+        const decision = new Promise<ReviewDecision>(resolve => { this.reviewWaiter = resolve; });
+
+        let cancelListener: vscode.Disposable | undefined;
+        const cancelled = new Promise<never>((_, reject) => {
+            cancelListener = token.onCancellationRequested(() => reject(new WorkflowCancelledError()));
+        });
+
+        try {
+            await this.showIterationChanges(iteration);
+            this.promptForReview(iteration);
+            return await Promise.race([decision, cancelled]);
+        } finally {
+            cancelListener?.dispose();
+            this.reviewWaiter = undefined;
+        }
+    }
+
+    /**
+     * Opens the changes of an iteration, reporting but not failing on git errors
+     */
+    private async showIterationChanges(iteration: number): Promise<void> {
+        if (!this.runId) {
+            return;
+        }
+        try {
+            await GitCheckpointStore.getInstance().openIterationChanges(this.runId, iteration, this.checkpoint?.repoRoot);
+        } catch (error) {
+            logger.warn('Failed to open the iteration changes:', error);
+            vscode.window.showWarningMessage(`Marco AI: Could not open the changes: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Asks for a review decision until one is made
+     * Dismissing the notification leaves the decision to the review commands.
+     */
+    private async promptForReview(iteration: number): Promise<void> {
+        while (this.reviewWaiter && this.iteration + 1 === iteration) {
+            const choice = await vscode.window.showInformationMessage(
+                `Marco AI: Iteration #${iteration} is ready for review.`,
+                'Approve', 'Reject', 'Revert', 'Show Changes'
+            );
+            if (!this.reviewWaiter || this.iteration + 1 !== iteration) {
+                return;
+            }
+
+            let decided: boolean | undefined = false;
+            switch (choice) {
+                case 'Approve':
+                    decided = await vscode.commands.executeCommand<boolean>('marco.approveIteration');
+                    break;
+                case 'Reject':
+                    decided = await vscode.commands.executeCommand<boolean>('marco.rejectIteration');
+                    break;
+                case 'Revert':
+                    decided = await vscode.commands.executeCommand<boolean>('marco.revertIteration');
+                    break;
+                case 'Show Changes':
+                    await this.showIterationChanges(iteration);
+                    break;
+                default:
+                    return;
+            }
+            if (decided) {
+                return;
+            }
+        }
+    }
+
+    /**
+     * Records a git checkpoint unless disabled by `marco.gitCheckpoints`
+     * A failed checkpoint is reported but does not fail the run.
+     */
+    private async recordGitCheckpoint(record: () => Promise<void>): Promise<void> {
+        if (this.getSetting<boolean>('gitCheckpoints') === false) {
+            return;
+        }
+        try {
+            await record();
+        } catch (error) {
+            logger.warn('Failed to record git checkpoint:', error);
+            vscode.window.showWarningMessage(`Marco AI: Could not record a git checkpoint: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Reads a `marco.*` setting, preferring the current run's overrides
+     */
+    private getSetting<T>(key: string): T | undefined {
+        const overrides = this.checkpoint?.settingsOverrides;
+        if (overrides && key in overrides) {
+            return overrides[key] as T;
+        }
+        return vscode.workspace.getConfiguration('marco').get<T>(key);
+    }
+
+    /**
+     * Reports the state of the step being executed
+     * While paused, the state is kept and applied on resume instead.
+     */
+    private setStepState(state: WorkflowState, message?: string): void {
+        if (this.state === WorkflowState.Paused) {
+            this.pendingStepState = { state, message };
+            return;
+        }
+        this.transition(state, message);
+    }
+
+    /**
+     * Throws if the run was cancelled and blocks while it is paused
+     * @param token The run's cancellation token
+     */
+    private async checkContinue(token: vscode.CancellationToken): Promise<void> {
+        if (token.isCancellationRequested) {
+            throw new WorkflowCancelledError();
+        }
+
+        while (this.state === WorkflowState.Paused) {
+            await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+
+            if (token.isCancellationRequested) {
+                throw new WorkflowCancelledError();
+            }
+        }
+    }
+}